@@ -0,0 +1,53 @@
+import crypto from 'crypto';
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+/**
+ * Resolve the HMAC secret used to sign access tokens.
+ * In production a secret must be configured; in development we fall back to a
+ * random per-process secret so the server still starts (tokens do not survive restarts).
+ */
+const resolveSecret = (): string => {
+  if (process.env.AUTH_TOKEN_SECRET) {
+    return process.env.AUTH_TOKEN_SECRET;
+  }
+
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('AUTH_TOKEN_SECRET must be set in production');
+  }
+
+  console.warn('[Auth] AUTH_TOKEN_SECRET not set, using a random development secret');
+  return crypto.randomBytes(32).toString('hex');
+};
+
+export const authConfig = {
+  accessTokenSecret: resolveSecret(),
+  // Access token lifetime in seconds (default: 15 minutes)
+  accessTokenTtl: parseInt(process.env.ACCESS_TOKEN_TTL_SECONDS || '900', 10),
+  // Refresh token lifetime in seconds (default: 30 days)
+  refreshTokenTtl: parseInt(process.env.REFRESH_TOKEN_TTL_SECONDS || '2592000', 10),
+  // Password reset token lifetime in seconds (default: 1 hour)
+  passwordResetTtl: parseInt(process.env.PASSWORD_RESET_TTL_SECONDS || '3600', 10),
+  // Email verification token lifetime in seconds (default: 7 days)
+  emailVerificationTtl: parseInt(process.env.EMAIL_VERIFICATION_TTL_SECONDS || '604800', 10),
+  // Base URL used to build links in account emails
+  appBaseUrl: process.env.APP_BASE_URL || 'http://localhost:3000',
+
+  // Login brute-force protection
+  loginThrottle: {
+    // 'memory' (single instance) or 'postgres' (shared across instances)
+    store: process.env.LOGIN_ATTEMPT_STORE || 'memory',
+    // Failures are forgotten after this long without a new failure (ms)
+    windowMs: parseInt(process.env.LOGIN_ATTEMPT_WINDOW_MS || '3600000', 10),
+    // Failures allowed before exponential backoff starts
+    freeAttemptsPerEmail: parseInt(process.env.LOGIN_FREE_ATTEMPTS_PER_EMAIL || '3', 10),
+    freeAttemptsPerIp: parseInt(process.env.LOGIN_FREE_ATTEMPTS_PER_IP || '20', 10),
+    // First backoff delay, doubled on every further failure, capped at maxDelayMs
+    baseDelayMs: parseInt(process.env.LOGIN_BACKOFF_BASE_MS || '1000', 10),
+    maxDelayMs: parseInt(process.env.LOGIN_BACKOFF_MAX_MS || '300000', 10),
+    // Failures per email that lock the account, and for how long (ms)
+    lockoutThreshold: parseInt(process.env.LOGIN_LOCKOUT_THRESHOLD || '10', 10),
+    lockoutDurationMs: parseInt(process.env.LOGIN_LOCKOUT_DURATION_MS || '900000', 10),
+  },
+};
@@ -0,0 +1,10 @@
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+export const reminderConfig = {
+  // How often the scheduler looks for due reminders (ms, default: 1 minute; 0 disables it)
+  schedulerIntervalMs: parseInt(process.env.REMINDER_SCHEDULER_INTERVAL_MS || '60000', 10),
+  // Reminders that came due longer ago than this (e.g. while the server was down) are skipped (ms, default: 1 hour)
+  lookbackMs: parseInt(process.env.REMINDER_LOOKBACK_MS || '3600000', 10),
+};
@@ -0,0 +1,33 @@
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+export const syncConfig = {
+  // How long a push response is kept for replay under its idempotency key (ms, default: 24 hours)
+  pushIdempotencyRetentionMs: parseInt(process.env.SYNC_PUSH_IDEMPOTENCY_RETENTION_MS || '86400000', 10),
+  // Keep-alive interval for GET /api/sync/events streams (ms, default: 25 seconds)
+  eventsHeartbeatMs: parseInt(process.env.SYNC_EVENTS_HEARTBEAT_MS || '25000', 10),
+  // How long soft-deleted rows are kept before being purged (ms, default: 30 days)
+  tombstoneRetentionMs: parseInt(process.env.SYNC_TOMBSTONE_RETENTION_MS || '2592000000', 10),
+  // How often the tombstone purge runs (ms, default: 6 hours; 0 disables it)
+  tombstonePurgeIntervalMs: parseInt(process.env.SYNC_TOMBSTONE_PURGE_INTERVAL_MS || '21600000', 10),
+  // How far ahead of the server a device clock may be before its timestamps are distrusted (ms, default: 5 minutes)
+  maxClockSkewMs: parseInt(process.env.SYNC_MAX_CLOCK_SKEW_MS || '300000', 10),
+  // What happens to pushed records stamped further ahead: 'clamp' them to the server clock, or 'reject' them
+  clockSkewPolicy: (process.env.SYNC_CLOCK_SKEW_POLICY === 'reject' ? 'reject' : 'clamp') as 'clamp' | 'reject',
+  // Pushed deletes vs edits from other devices: 'lww' (later clock wins), 'delete-wins', or
+  // 'edit-wins' (a record edited since the deleting device last pulled is resurrected)
+  deleteEditPolicy: (['delete-wins', 'edit-wins'].includes(process.env.SYNC_DELETE_EDIT_POLICY || '')
+    ? process.env.SYNC_DELETE_EDIT_POLICY
+    : 'lww') as 'lww' | 'delete-wins' | 'edit-wins',
+  // Todos of a deleted category (REST or sync push): 'set-null' (they become uncategorized),
+  // 'cascade' (they are deleted too) or 'restrict' (categories with todos cannot be deleted)
+  categoryDeletePolicy: (['cascade', 'restrict'].includes(process.env.SYNC_CATEGORY_DELETE_POLICY || '')
+    ? process.env.SYNC_CATEGORY_DELETE_POLICY
+    : 'set-null') as 'set-null' | 'cascade' | 'restrict',
+  // Largest pull / push request body accepted, after decompression (bytes, default: 1 MB / 50 MB)
+  pullBodyLimitBytes: parseInt(process.env.SYNC_PULL_BODY_LIMIT_BYTES || '1048576', 10),
+  pushBodyLimitBytes: parseInt(process.env.SYNC_PUSH_BODY_LIMIT_BYTES || '52428800', 10),
+  // Devices without a successful sync for this long are reported as stale (days, default: 7)
+  staleDeviceDays: parseInt(process.env.SYNC_STALE_DEVICE_DAYS || '7', 10),
+};
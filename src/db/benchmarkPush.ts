@@ -0,0 +1,141 @@
+import { v4 as uuidv4 } from 'uuid';
+import pool from '../config/database';
+import { getCollectionService } from '../services/collectionService';
+import { fieldMappingService } from '../services/fieldMappingService';
+import { emptySyncChanges, syncService } from '../services/syncService';
+
+/**
+ * Sync push benchmark
+ *
+ * Pushes the same offline backlog (one category, N todos created, then all N
+ * updated) twice for a throwaway user:
+ * - per record: a SELECT and an INSERT/UPDATE per record in one transaction
+ *   (how push used to work)
+ * - set-based: syncService.pushChanges
+ *
+ * Usage: npm run benchmark:push -- [records]   (default 5000)
+ * Runs against DATABASE_URL; the benchmark user and its rows are deleted afterwards.
+ */
+
+const DEFAULT_RECORDS = 5000;
+
+interface Timing {
+  created: number;  // ms
+  updated: number;  // ms
+}
+
+const buildBacklog = (count: number, categoryId: string, now: number) => {
+  const todos = Array.from({ length: count }, (_, i) => ({
+    id: uuidv4(),
+    title: `Benchmark todo ${i}`,
+    description: null,
+    is_completed: false,
+    category_id: categoryId,
+    created_at: now,
+    updated_at: now,
+  }));
+  const updates = todos.map(todo => ({
+    id: todo.id,
+    is_completed: true,
+    updated_at: now + 1,
+    _changed: 'is_completed',
+  }));
+  return { todos, updates };
+};
+
+async function pushPerRecord(userId: string, categoryId: string, count: number): Promise<Timing> {
+  const todoService = getCollectionService('todos');
+  const { todos, updates } = buildBacklog(count, categoryId, Date.now());
+  const client = await pool.connect();
+
+  try {
+    let start = Date.now();
+    await client.query('BEGIN');
+    for (const todo of todos) {
+      const existing = await todoService.getById(todo.id, userId, client);
+      if (!existing) {
+        await todoService.create(userId, fieldMappingService.toRemote('todos', todo), client);
+      }
+    }
+    await client.query('COMMIT');
+    const created = Date.now() - start;
+
+    start = Date.now();
+    await client.query('BEGIN');
+    for (const update of updates) {
+      const existing = await todoService.getById(update.id, userId, client);
+      if (existing) {
+        await todoService.update(update.id, userId, { done: update.is_completed, modified_at: update.updated_at }, client);
+      }
+    }
+    await client.query('COMMIT');
+    return { created, updated: Date.now() - start };
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+async function pushSetBased(userId: string, categoryId: string, count: number): Promise<Timing> {
+  const { todos, updates } = buildBacklog(count, categoryId, Date.now());
+
+  let start = Date.now();
+  const created = emptySyncChanges();
+  created.todos.created = todos;
+  await syncService.pushChanges(userId, { changes: created, lastPulledAt: null });
+  const createdMs = Date.now() - start;
+
+  start = Date.now();
+  const updated = emptySyncChanges();
+  updated.todos.updated = updates;
+  await syncService.pushChanges(userId, { changes: updated, lastPulledAt: null });
+  return { created: createdMs, updated: Date.now() - start };
+}
+
+const perSecond = (count: number, ms: number) => Math.round(count / (Math.max(ms, 1) / 1000));
+
+async function runBenchmark() {
+  const count = Number(process.argv[2]) || DEFAULT_RECORDS;
+  const userId = uuidv4();
+
+  try {
+    await pool.query(
+      'INSERT INTO users (id, email, password) VALUES ($1, $2, $3)',
+      [userId, `push-benchmark-${userId}@example.invalid`, 'benchmark']
+    );
+    const category = await getCollectionService('categories').create(userId, { name: 'Benchmark' });
+
+    console.log(`[Benchmark] Pushing ${count} created + ${count} updated todos...`);
+    const perRecord = await pushPerRecord(userId, category.id, count);
+    const setBased = await pushSetBased(userId, category.id, count);
+
+    console.table({
+      'per record': {
+        'create (ms)': perRecord.created,
+        'create (records/s)': perSecond(count, perRecord.created),
+        'update (ms)': perRecord.updated,
+        'update (records/s)': perSecond(count, perRecord.updated),
+      },
+      'set-based': {
+        'create (ms)': setBased.created,
+        'create (records/s)': perSecond(count, setBased.created),
+        'update (ms)': setBased.updated,
+        'update (records/s)': perSecond(count, setBased.updated),
+      },
+    });
+    console.log(
+      `[Benchmark] Speedup: create ${(perRecord.created / Math.max(setBased.created, 1)).toFixed(1)}x, ` +
+      `update ${(perRecord.updated / Math.max(setBased.updated, 1)).toFixed(1)}x`
+    );
+  } finally {
+    await pool.query('DELETE FROM users WHERE id = $1', [userId]);
+    await pool.end();
+  }
+}
+
+runBenchmark().catch(error => {
+  console.error('[Benchmark] Error:', error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,17 @@
+-- Refresh tokens table
+-- Only a SHA-256 hash of each token is stored. Tokens are rotated on every use:
+-- the used token is revoked and points at its replacement. All tokens issued from
+-- one login share a family_id so a replayed (already rotated) token can revoke the family.
+CREATE TABLE IF NOT EXISTS refresh_tokens (
+    id UUID PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    family_id UUID NOT NULL,
+    token_hash VARCHAR(64) UNIQUE NOT NULL,
+    created_timestamp BIGINT NOT NULL DEFAULT (EXTRACT(EPOCH FROM NOW()) * 1000)::BIGINT,
+    expires_at BIGINT NOT NULL,
+    revoked_at BIGINT,
+    replaced_by UUID
+);
+
+CREATE INDEX IF NOT EXISTS idx_refresh_tokens_user_id ON refresh_tokens(user_id);
+CREATE INDEX IF NOT EXISTS idx_refresh_tokens_family_id ON refresh_tokens(family_id);
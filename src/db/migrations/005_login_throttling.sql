@@ -0,0 +1,20 @@
+-- Failed login attempts per throttle key ('email:<address>' or 'ip:<address>')
+-- Only used when LOGIN_ATTEMPT_STORE=postgres (shared across server instances)
+CREATE TABLE IF NOT EXISTS login_attempts (
+    key VARCHAR(320) PRIMARY KEY,
+    failures INTEGER NOT NULL DEFAULT 0,
+    last_failure_at BIGINT NOT NULL,
+    blocked_until BIGINT NOT NULL DEFAULT 0
+);
+
+-- Audit trail of account lockouts
+CREATE TABLE IF NOT EXISTS login_lockouts (
+    id UUID PRIMARY KEY,
+    email VARCHAR(255) NOT NULL,
+    ip VARCHAR(64),
+    failures INTEGER NOT NULL,
+    locked_until BIGINT NOT NULL,
+    created_timestamp BIGINT NOT NULL DEFAULT (EXTRACT(EPOCH FROM NOW()) * 1000)::BIGINT
+);
+
+CREATE INDEX IF NOT EXISTS idx_login_lockouts_email ON login_lockouts(email);
@@ -0,0 +1,62 @@
+-- Server-assigned change sequence for sync
+--
+-- Every insert/update (including soft deletes) of a category or todo takes the next
+-- value of its owner's counter in sync_counters. The counter row is locked until the
+-- writing transaction commits, so a user's writes are serialized and any snapshot sees
+-- a gap-free prefix of the sequence: pulling "change_seq > cursor" never skips rows,
+-- regardless of client clocks or concurrent transactions.
+--
+-- Counters start at the current epoch milliseconds (and existing rows are backfilled
+-- from their timestamps), so cursors handed out before this migration, which were
+-- wall-clock timestamps, keep working.
+
+CREATE TABLE IF NOT EXISTS sync_counters (
+    user_id UUID PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+    last_seq BIGINT NOT NULL
+);
+
+ALTER TABLE categories ADD COLUMN IF NOT EXISTS change_seq BIGINT NOT NULL DEFAULT 0;
+ALTER TABLE categories ADD COLUMN IF NOT EXISTS created_seq BIGINT NOT NULL DEFAULT 0;
+ALTER TABLE todos ADD COLUMN IF NOT EXISTS change_seq BIGINT NOT NULL DEFAULT 0;
+ALTER TABLE todos ADD COLUMN IF NOT EXISTS created_seq BIGINT NOT NULL DEFAULT 0;
+
+-- Backfill rows written before the trigger existed (no-op on re-runs)
+UPDATE categories SET change_seq = modified_at, created_seq = created_timestamp WHERE change_seq = 0;
+UPDATE todos SET change_seq = modified_at, created_seq = created_timestamp WHERE change_seq = 0;
+
+INSERT INTO sync_counters (user_id, last_seq)
+SELECT u.id, GREATEST(
+    (EXTRACT(EPOCH FROM NOW()) * 1000)::BIGINT,
+    COALESCE((SELECT MAX(change_seq) FROM categories c WHERE c.user_id = u.id), 0),
+    COALESCE((SELECT MAX(change_seq) FROM todos t WHERE t.user_id = u.id), 0)
+)
+FROM users u
+ON CONFLICT (user_id) DO NOTHING;
+
+CREATE OR REPLACE FUNCTION assign_change_seq() RETURNS TRIGGER AS $$
+BEGIN
+    INSERT INTO sync_counters (user_id, last_seq)
+    VALUES (NEW.user_id, (EXTRACT(EPOCH FROM clock_timestamp()) * 1000)::BIGINT)
+    ON CONFLICT (user_id) DO UPDATE SET last_seq = sync_counters.last_seq + 1
+    RETURNING last_seq INTO NEW.change_seq;
+
+    IF TG_OP = 'INSERT' THEN
+        NEW.created_seq := NEW.change_seq;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_categories_change_seq ON categories;
+CREATE TRIGGER trg_categories_change_seq
+    BEFORE INSERT OR UPDATE ON categories
+    FOR EACH ROW EXECUTE FUNCTION assign_change_seq();
+
+DROP TRIGGER IF EXISTS trg_todos_change_seq ON todos;
+CREATE TRIGGER trg_todos_change_seq
+    BEFORE INSERT OR UPDATE ON todos
+    FOR EACH ROW EXECUTE FUNCTION assign_change_seq();
+
+CREATE INDEX IF NOT EXISTS idx_categories_user_change_seq ON categories(user_id, change_seq);
+CREATE INDEX IF NOT EXISTS idx_todos_user_change_seq ON todos(user_id, change_seq);
@@ -0,0 +1,6 @@
+-- Per-field change timestamps for field-level merge on sync push
+-- Maps remote column name -> modified_at of the last write to that column,
+-- e.g. {"name": 1700000000000, "done": 1700000005000}. Columns missing from the
+-- map fall back to the row's modified_at.
+ALTER TABLE categories ADD COLUMN IF NOT EXISTS field_timestamps JSONB NOT NULL DEFAULT '{}';
+ALTER TABLE todos ADD COLUMN IF NOT EXISTS field_timestamps JSONB NOT NULL DEFAULT '{}';
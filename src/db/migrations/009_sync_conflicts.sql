@@ -0,0 +1,26 @@
+-- Persisted sync conflict log
+-- A row is written whenever a push discards a value: the server kept a field the
+-- client changed, or the client overwrote/deleted a server version it had not pulled.
+-- losing_payload holds the discarded values (LOCAL field names, plus "_deleted" when
+-- the deleted state itself lost) so the losing version can be re-applied later.
+CREATE TABLE IF NOT EXISTS sync_conflicts (
+    id UUID PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    collection VARCHAR(64) NOT NULL,
+    record_id UUID NOT NULL,
+    winner VARCHAR(16) NOT NULL,  -- 'local' | 'remote' | 'merged'
+    reason TEXT NOT NULL,
+    local_updated_at BIGINT,
+    remote_updated_at BIGINT,
+    fields JSONB,
+    local_payload JSONB,
+    remote_payload JSONB,
+    losing_payload JSONB NOT NULL,
+    session_id UUID,
+    request_id VARCHAR(128),
+    created_timestamp BIGINT NOT NULL DEFAULT (EXTRACT(EPOCH FROM NOW()) * 1000)::BIGINT,
+    reapplied_at BIGINT
+);
+
+CREATE INDEX IF NOT EXISTS idx_sync_conflicts_user_created ON sync_conflicts(user_id, created_timestamp);
+CREATE INDEX IF NOT EXISTS idx_sync_conflicts_record ON sync_conflicts(user_id, record_id);
@@ -0,0 +1,13 @@
+-- Idempotent push: outcome of each push per user and client-supplied batch id
+-- The row is written in the same transaction as the pushed changes, so a batch is
+-- either applied and recorded, or neither. Replays return the stored response.
+CREATE TABLE IF NOT EXISTS sync_push_batches (
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    batch_id VARCHAR(255) NOT NULL,
+    request_hash VARCHAR(64) NOT NULL,
+    response JSONB,
+    created_timestamp BIGINT NOT NULL DEFAULT (EXTRACT(EPOCH FROM NOW()) * 1000)::BIGINT,
+    PRIMARY KEY (user_id, batch_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_sync_push_batches_created ON sync_push_batches(created_timestamp);
@@ -0,0 +1,32 @@
+-- Generic synced collections
+--
+-- assign_change_seq() now takes the owner column as an optional trigger argument, so
+-- any table registered in src/services/syncCollections.ts can reuse it:
+--
+--   CREATE TRIGGER trg_<table>_change_seq BEFORE INSERT OR UPDATE ON <table>
+--       FOR EACH ROW EXECUTE FUNCTION assign_change_seq('<owner column>');
+--
+-- Without an argument the owner column is user_id (existing categories/todos triggers).
+
+CREATE OR REPLACE FUNCTION assign_change_seq() RETURNS TRIGGER AS $$
+DECLARE
+    owner_id UUID;
+BEGIN
+    IF TG_NARGS > 0 THEN
+        owner_id := (to_jsonb(NEW) ->> TG_ARGV[0])::UUID;
+    ELSE
+        owner_id := NEW.user_id;
+    END IF;
+
+    INSERT INTO sync_counters (user_id, last_seq)
+    VALUES (owner_id, (EXTRACT(EPOCH FROM clock_timestamp()) * 1000)::BIGINT)
+    ON CONFLICT (user_id) DO UPDATE SET last_seq = sync_counters.last_seq + 1
+    RETURNING last_seq INTO NEW.change_seq;
+
+    IF TG_OP = 'INSERT' THEN
+        NEW.created_seq := NEW.change_seq;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,11 @@
+-- Tombstone garbage collection
+--
+-- Soft-deleted rows older than the retention period are purged. purged_seq records the
+-- highest change_seq purged for each user: a client whose lastPulledAt is below it may
+-- have missed deletions and must do a full resync.
+
+ALTER TABLE sync_counters ADD COLUMN IF NOT EXISTS purged_seq BIGINT NOT NULL DEFAULT 0;
+ALTER TABLE sync_counters ADD COLUMN IF NOT EXISTS purged_at BIGINT;
+
+CREATE INDEX IF NOT EXISTS idx_categories_tombstones ON categories(modified_at) WHERE is_deleted = TRUE;
+CREATE INDEX IF NOT EXISTS idx_todos_tombstones ON todos(modified_at) WHERE is_deleted = TRUE;
@@ -0,0 +1,13 @@
+-- Hybrid logical clocks for conflict ordering
+--
+-- Sync writes are ordered by hybrid logical clock (HLC) timestamps instead of device
+-- wall-clock times (see src/services/clockService.ts). clock holds the HLC of a row's
+-- last write (including deletes) and field_clocks the HLC of the last write to each
+-- mergeable column, e.g. {"name": "001700000000000-000000"}. Rows and columns without a
+-- clock (written before this migration) fall back to field_timestamps / modified_at.
+-- modified_at and field_timestamps are still maintained, for display.
+
+ALTER TABLE categories ADD COLUMN IF NOT EXISTS clock TEXT;
+ALTER TABLE categories ADD COLUMN IF NOT EXISTS field_clocks JSONB NOT NULL DEFAULT '{}';
+ALTER TABLE todos ADD COLUMN IF NOT EXISTS clock TEXT;
+ALTER TABLE todos ADD COLUMN IF NOT EXISTS field_clocks JSONB NOT NULL DEFAULT '{}';
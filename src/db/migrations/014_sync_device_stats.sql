@@ -0,0 +1,29 @@
+-- Per-device sync statistics
+--
+-- One row per session (device), updated on every pull and push: attempts, failures,
+-- records exchanged, time spent, conflicts, the last cursor pulled and the last error.
+-- Read by GET /api/sync/status. users.is_admin grants the all-users overview.
+
+CREATE TABLE IF NOT EXISTS sync_device_stats (
+    session_id UUID PRIMARY KEY REFERENCES sessions(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    pulls INTEGER NOT NULL DEFAULT 0,
+    pull_errors INTEGER NOT NULL DEFAULT 0,
+    records_pulled BIGINT NOT NULL DEFAULT 0,
+    pull_ms BIGINT NOT NULL DEFAULT 0,
+    pushes INTEGER NOT NULL DEFAULT 0,
+    push_errors INTEGER NOT NULL DEFAULT 0,
+    records_pushed BIGINT NOT NULL DEFAULT 0,
+    push_ms BIGINT NOT NULL DEFAULT 0,
+    conflicts BIGINT NOT NULL DEFAULT 0,
+    rejected BIGINT NOT NULL DEFAULT 0,
+    last_cursor BIGINT,
+    last_pull_at BIGINT,
+    last_push_at BIGINT,
+    last_error TEXT,
+    last_error_at BIGINT
+);
+
+CREATE INDEX IF NOT EXISTS idx_sync_device_stats_user_id ON sync_device_stats(user_id);
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS is_admin BOOLEAN NOT NULL DEFAULT FALSE;
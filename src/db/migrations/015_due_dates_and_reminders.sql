@@ -0,0 +1,34 @@
+-- Due dates and reminders
+--
+-- due_at is the todo's due time (ms since epoch) and due_timezone the IANA zone it was
+-- set in (for display). reminder_offsets lists minutes before due_at to remind at
+-- ("10,60"). The reminder scheduler claims each reminder in todo_reminder_deliveries
+-- before handing it to the notifier, so it is sent once even with several instances;
+-- the default notifier writes to notifications (GET /api/notifications).
+
+ALTER TABLE todos ADD COLUMN IF NOT EXISTS due_at BIGINT;
+ALTER TABLE todos ADD COLUMN IF NOT EXISTS due_timezone VARCHAR(64);
+ALTER TABLE todos ADD COLUMN IF NOT EXISTS reminder_offsets VARCHAR(255);
+
+CREATE INDEX IF NOT EXISTS idx_todos_reminders ON todos(due_at)
+    WHERE reminder_offsets IS NOT NULL AND is_deleted = FALSE AND done = FALSE;
+
+CREATE TABLE IF NOT EXISTS todo_reminder_deliveries (
+    todo_id UUID NOT NULL REFERENCES todos(id) ON DELETE CASCADE,
+    remind_at BIGINT NOT NULL,
+    dispatched_at BIGINT NOT NULL,
+    PRIMARY KEY (todo_id, remind_at)
+);
+
+CREATE TABLE IF NOT EXISTS notifications (
+    id UUID PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    todo_id UUID REFERENCES todos(id) ON DELETE SET NULL,
+    title VARCHAR(255) NOT NULL,
+    body TEXT,
+    due_at BIGINT,
+    remind_at BIGINT,
+    created_timestamp BIGINT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_notifications_user_created ON notifications(user_id, created_timestamp);
@@ -0,0 +1,26 @@
+-- Server deletion time for tombstone retention
+--
+-- modified_at of a deleted row comes from the client (updated_at, or deleted_at since
+-- deletion times are accepted), so it can lie arbitrarily far in the past. The purge
+-- measures retention from deleted_at_server instead: when the server soft deleted the
+-- row. Existing tombstones get the migration time, so they are kept a full period.
+-- The backfill runs with the change sequence triggers disabled: it changes nothing
+-- clients sync, so the tombstones must not be pulled again.
+
+ALTER TABLE categories ADD COLUMN IF NOT EXISTS deleted_at_server BIGINT;
+ALTER TABLE todos ADD COLUMN IF NOT EXISTS deleted_at_server BIGINT;
+
+ALTER TABLE categories DISABLE TRIGGER trg_categories_change_seq;
+UPDATE categories SET deleted_at_server = (EXTRACT(EPOCH FROM NOW()) * 1000)::BIGINT
+    WHERE is_deleted = TRUE AND deleted_at_server IS NULL;
+ALTER TABLE categories ENABLE TRIGGER trg_categories_change_seq;
+
+ALTER TABLE todos DISABLE TRIGGER trg_todos_change_seq;
+UPDATE todos SET deleted_at_server = (EXTRACT(EPOCH FROM NOW()) * 1000)::BIGINT
+    WHERE is_deleted = TRUE AND deleted_at_server IS NULL;
+ALTER TABLE todos ENABLE TRIGGER trg_todos_change_seq;
+
+DROP INDEX IF EXISTS idx_categories_tombstones;
+DROP INDEX IF EXISTS idx_todos_tombstones;
+CREATE INDEX IF NOT EXISTS idx_categories_tombstones ON categories(deleted_at_server) WHERE is_deleted = TRUE;
+CREATE INDEX IF NOT EXISTS idx_todos_tombstones ON todos(deleted_at_server) WHERE is_deleted = TRUE;
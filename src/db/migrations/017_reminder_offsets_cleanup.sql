@@ -0,0 +1,13 @@
+-- Well-formed reminder offsets
+--
+-- REST writes were not validated against the todos registry entry at first, so
+-- reminder_offsets may hold values the reminder scheduler cannot expand. They are
+-- cleared (no reminders) rather than guessed at, and the format is enforced from now
+-- on, so one bad row cannot fail a scheduler run.
+
+UPDATE todos SET reminder_offsets = NULL
+    WHERE reminder_offsets IS NOT NULL AND reminder_offsets !~ '^[0-9]{1,5}(,[0-9]{1,5})*$';
+
+ALTER TABLE todos DROP CONSTRAINT IF EXISTS todos_reminder_offsets_format;
+ALTER TABLE todos ADD CONSTRAINT todos_reminder_offsets_format
+    CHECK (reminder_offsets ~ '^[0-9]{1,5}(,[0-9]{1,5})*$');
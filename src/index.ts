@@ -1,11 +1,16 @@
 import express from 'express';
 import cors from 'cors';
 import dotenv from 'dotenv';
+import { v4 as uuidv4 } from 'uuid';
 
 import authRoutes from './routes/auth';
-import categoriesRoutes from './routes/categories';
-import todosRoutes from './routes/todos';
+import accountRoutes from './routes/account';
 import syncRoutes from './routes/sync';
+import notificationRoutes from './routes/notifications';
+import { createCollectionRouter } from './routes/collections';
+import { SYNC_COLLECTION_NAMES } from './services/syncCollections';
+import { tombstoneService } from './services/tombstoneService';
+import { reminderService } from './services/reminderService';
 
 dotenv.config();
 
@@ -14,11 +19,24 @@ const PORT = process.env.PORT || 3000;
 
 // Middleware
 app.use(cors());
-app.use(express.json());
+
+// Sync routes parse their own bodies (compressed JSON or MessagePack, see syncPayload)
+const jsonParser = express.json();
+app.use((req, res, next) => (req.path.startsWith('/api/sync/') ? next() : jsonParser(req, res, next)));
+
+// Request ID (client-supplied X-Request-Id or generated), echoed back for log correlation.
+// Client values must be a simple token that fits sync_conflicts.request_id, else one is generated.
+const REQUEST_ID_PATTERN = /^[A-Za-z0-9._:-]{1,128}$/;
+app.use((req, res, next) => {
+  const supplied = req.headers['x-request-id'];
+  req.requestId = typeof supplied === 'string' && REQUEST_ID_PATTERN.test(supplied) ? supplied : uuidv4();
+  res.setHeader('X-Request-Id', req.requestId);
+  next();
+});
 
 // Request logging
 app.use((req, res, next) => {
-  console.log(`[${new Date().toISOString()}] ${req.method} ${req.path}`);
+  console.log(`[${new Date().toISOString()}] ${req.method} ${req.path} (${req.requestId})`);
   next();
 });
 
@@ -29,9 +47,14 @@ app.get('/health', (req, res) => {
 
 // Routes
 app.use('/api/auth', authRoutes);
-app.use('/api/categories', categoriesRoutes);
-app.use('/api/todos', todosRoutes);
+app.use('/api/account', accountRoutes);
 app.use('/api/sync', syncRoutes);
+app.use('/api/notifications', notificationRoutes);
+
+// REST CRUD for every synced collection (/api/categories, /api/todos, ...)
+for (const collection of SYNC_COLLECTION_NAMES) {
+  app.use(`/api/${collection}`, createCollectionRouter(collection));
+}
 
 // Error handler
 app.use((err: Error, req: express.Request, res: express.Response, next: express.NextFunction) => {
@@ -41,4 +64,6 @@ app.use((err: Error, req: express.Request, res: express.Response, next: express.
 
 app.listen(PORT, () => {
   console.log(`[Server] Running on http://localhost:${PORT}`);
+  tombstoneService.startSchedule();
+  reminderService.startSchedule();
 });
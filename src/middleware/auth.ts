@@ -1,19 +1,28 @@
 import { Request, Response, NextFunction } from 'express';
-import { query } from '../config/database';
+import { tokenService } from '../services/tokenService';
+import { sessionService } from '../services/sessionService';
+import { authService } from '../services/authService';
+import { apiKeyService, API_KEY_PREFIX, ApiKeyScope } from '../services/apiKeyService';
 
 // Extend Express Request to include userId
 declare global {
   namespace Express {
     interface Request {
+      requestId?: string;
       userId?: string;
+      sessionId?: string;
+      apiKeyId?: string;
+      apiKeyScopes?: ApiKeyScope[];
     }
   }
 }
 
 /**
- * Simple auth middleware
- * Expects: Authorization: Bearer <userId>
- * For POC purposes, we just verify the userId exists in the database
+ * Auth middleware
+ * Expects: Authorization: Bearer <accessToken | apiKey>
+ * Access tokens: verifies signature and expiry, and that the session (device)
+ * has not been revoked. API keys (tdk_...): verifies the key is active and
+ * records its scopes for requireScope.
  */
 export const authMiddleware = async (
   req: Request,
@@ -28,25 +37,130 @@ export const authMiddleware = async (
       return;
     }
     
-    const userId = authHeader.substring(7); // Remove 'Bearer ' prefix
+    const token = authHeader.substring(7); // Remove 'Bearer ' prefix
     
-    if (!userId) {
+    if (!token) {
       res.status(401).json({ error: 'Invalid authorization token' });
       return;
     }
     
-    // Verify user exists
-    const result = await query('SELECT id FROM users WHERE id = $1', [userId]);
+    if (token.startsWith(API_KEY_PREFIX)) {
+      const apiKey = await apiKeyService.authenticate(token);
+      
+      if (!apiKey) {
+        res.status(401).json({ error: 'Invalid or expired API key' });
+        return;
+      }
+      
+      req.userId = apiKey.user_id;
+      req.apiKeyId = apiKey.id;
+      req.apiKeyScopes = apiKey.scopes;
+      next();
+      return;
+    }
+    
+    let payload;
+    try {
+      payload = tokenService.verifyAccessToken(token);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Invalid authorization token';
+      res.status(401).json({ error: message });
+      return;
+    }
     
-    if (result.rows.length === 0) {
-      res.status(401).json({ error: 'User not found' });
+    if (!(await sessionService.isActive(payload.sid, req.ip))) {
+      res.status(401).json({ error: 'Session has been revoked' });
       return;
     }
     
-    req.userId = userId;
+    req.userId = payload.sub;
+    req.sessionId = payload.sid;
     next();
   } catch (error) {
     console.error('[Auth] Error:', error);
     res.status(500).json({ error: 'Authentication error' });
   }
 };
+
+/**
+ * Scope check (use after authMiddleware)
+ * Login sessions have full access; API keys need the given scope
+ */
+export const requireScope = (scope: ApiKeyScope) => (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void => {
+  if (req.apiKeyScopes && !req.apiKeyScopes.includes(scope)) {
+    res.status(403).json({ error: `API key is missing the '${scope}' scope` });
+    return;
+  }
+  next();
+};
+
+/**
+ * Restrict a route to login sessions (use after authMiddleware)
+ * Account and credential management is not available to API keys
+ */
+export const requireSession = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void => {
+  if (req.apiKeyId) {
+    res.status(403).json({ error: 'This endpoint requires a login session' });
+    return;
+  }
+  next();
+};
+
+/**
+ * Restrict a route to administrators (users.is_admin; use after requireSession)
+ */
+export const requireAdmin = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const user = await authService.getById(req.userId!);
+    
+    if (!user?.is_admin) {
+      res.status(403).json({ error: 'This endpoint requires an administrator' });
+      return;
+    }
+    
+    next();
+  } catch (error) {
+    console.error('[Auth] Admin check error:', error);
+    res.status(500).json({ error: 'Authentication error' });
+  }
+};
+
+/**
+ * Sync session middleware (use after authMiddleware)
+ * Always re-checks the session against the database, bypassing the short-lived
+ * cache, and records the device's last sync time. API keys have no session.
+ */
+export const syncSessionMiddleware = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    if (req.apiKeyId) {
+      next();
+      return;
+    }
+    
+    if (!(await sessionService.touchSync(req.sessionId!, req.ip))) {
+      res.status(401).json({ error: 'Session has been revoked' });
+      return;
+    }
+    
+    next();
+  } catch (error) {
+    console.error('[Auth] Sync session error:', error);
+    res.status(500).json({ error: 'Authentication error' });
+  }
+};
@@ -0,0 +1,253 @@
+import { Request, Response, NextFunction } from 'express';
+import { Readable, Transform } from 'stream';
+import { pipeline } from 'stream/promises';
+import zlib from 'zlib';
+import { decode, Encoder } from '@msgpack/msgpack';
+
+/**
+ * Sync payloads
+ *
+ * Pull and push bodies can be large (offline backlogs, first syncs), so the
+ * sync routes negotiate their wire format instead of using express.json():
+ * - requests: JSON or MessagePack (Content-Type), optionally compressed
+ *   (Content-Encoding: gzip, deflate or br), up to a per-route decoded size
+ * - responses: JSON or MessagePack (Accept), compressed per Accept-Encoding,
+ *   and streamed record by record so the whole body is never held as one string
+ */
+
+const MSGPACK_TYPES = ['application/msgpack', 'application/x-msgpack', 'application/vnd.msgpack'];
+
+const DECOMPRESSORS: Partial<Record<string, () => Transform>> = {
+  gzip: () => zlib.createGunzip(),
+  'x-gzip': () => zlib.createGunzip(),
+  deflate: () => zlib.createInflate(),
+  br: () => zlib.createBrotliDecompress(),
+};
+
+const COMPRESSORS: Partial<Record<string, () => Transform>> = {
+  br: () => zlib.createBrotliCompress({ params: { [zlib.constants.BROTLI_PARAM_QUALITY]: 4 } }),  // Default 11 is too slow for live responses
+  gzip: () => zlib.createGzip(),
+  deflate: () => zlib.createDeflate(),
+};
+
+// Containers down to this depth (response -> changes -> collection -> list) are
+// written piece by piece; anything deeper (a record) is serialized whole
+const STREAMED_DEPTH = 4;
+
+// Bytes collected before a response chunk is written
+const FLUSH_BYTES = 64 * 1024;
+
+// Undefined properties are left out, as in JSON
+const encoder = new Encoder({ ignoreUndefined: true });
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  value !== null && typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype;
+
+const hasBody = (req: Request) =>
+  req.headers['transfer-encoding'] !== undefined || Number(req.headers['content-length'] || 0) > 0;
+
+/**
+ * Read a (decompressed) request body
+ * Resolves to null once more than `limit` bytes are read; the rest of the
+ * upload is drained (not destroyed), so the client still gets the response.
+ */
+const readBody = (req: Request, decompress: (() => Transform) | null, limit: number): Promise<Buffer | null> =>
+  new Promise((resolve, reject) => {
+    const decompressor = decompress ? req.pipe(decompress()) : null;
+    const stream: Readable = decompressor ?? req;
+    let chunks: Buffer[] = [];
+    let size = 0;
+
+    const onData = (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > limit) {
+        stream.off('data', onData);
+        chunks = [];
+        if (decompressor) {
+          req.unpipe(decompressor);
+          decompressor.destroy();
+        }
+        req.resume();
+        resolve(null);
+        return;
+      }
+      chunks.push(chunk);
+    };
+    stream.on('data', onData);
+    stream.on('end', () => resolve(Buffer.concat(chunks)));
+    stream.on('error', reject);
+  });
+
+/**
+ * Body parser for sync routes: JSON or MessagePack, optionally compressed
+ * `limit` is the maximum size in bytes after decompression.
+ */
+export const syncBodyParser = (limit: number) =>
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    if (!hasBody(req)) {
+      req.body = {};
+      next();
+      return;
+    }
+
+    const encoding = (req.headers['content-encoding'] || 'identity').toLowerCase();
+    const decompress = encoding === 'identity' ? null : DECOMPRESSORS[encoding];
+    if (decompress === undefined) {
+      res.status(415).json({ error: `Unsupported Content-Encoding: ${encoding}` });
+      return;
+    }
+
+    const msgpack = req.is(MSGPACK_TYPES) !== false;
+    if (!msgpack && !req.is('application/json')) {
+      res.status(415).json({ error: 'Content-Type must be application/json or application/msgpack' });
+      return;
+    }
+
+    if (Number(req.headers['content-length'] || 0) > limit) {
+      req.resume();
+      res.status(413).json({ error: `Request body exceeds ${limit} bytes` });
+      return;
+    }
+
+    try {
+      const raw = await readBody(req, decompress, limit);
+      if (!raw) {
+        res.status(413).json({ error: `Request body exceeds ${limit} bytes` });
+        return;
+      }
+
+      const body = msgpack ? decode(raw) : JSON.parse(raw.toString('utf8'));
+      if (!isPlainObject(body)) {
+        res.status(400).json({ error: 'Request body must be an object' });
+        return;
+      }
+      req.body = body;
+      next();
+    } catch (error) {
+      console.error('[Sync] Invalid request body:', error instanceof Error ? error.message : error);
+      res.status(400).json({ error: 'Invalid request body' });
+    }
+  };
+
+/**
+ * JSON text of a value, in pieces (same output as JSON.stringify)
+ */
+function* jsonPieces(value: unknown, depth = 0): Generator<string> {
+  if (depth < STREAMED_DEPTH && Array.isArray(value)) {
+    yield '[';
+    for (let i = 0; i < value.length; i++) {
+      if (i > 0) {
+        yield ',';
+      }
+      yield* jsonPieces(value[i] === undefined ? null : value[i], depth + 1);
+    }
+    yield ']';
+    return;
+  }
+
+  if (depth < STREAMED_DEPTH && isPlainObject(value)) {
+    yield '{';
+    let first = true;
+    for (const [key, item] of Object.entries(value)) {
+      if (item === undefined || typeof item === 'function') {
+        continue;
+      }
+      yield `${first ? '' : ','}${JSON.stringify(key)}:`;
+      first = false;
+      yield* jsonPieces(item, depth + 1);
+    }
+    yield '}';
+    return;
+  }
+
+  yield JSON.stringify(value) ?? 'null';
+}
+
+/**
+ * MessagePack array/map header for `length` entries
+ */
+const containerHeader = (length: number, fix: number, header16: number, header32: number): Uint8Array => {
+  if (length < 16) {
+    return Uint8Array.of(fix | length);
+  }
+  if (length < 0x10000) {
+    return Uint8Array.of(header16, length >> 8, length & 0xff);
+  }
+  const header = Buffer.alloc(5);
+  header[0] = header32;
+  header.writeUInt32BE(length, 1);
+  return header;
+};
+
+/**
+ * MessagePack encoding of a value, in pieces
+ */
+function* msgpackPieces(value: unknown, depth = 0): Generator<Uint8Array> {
+  if (depth < STREAMED_DEPTH && Array.isArray(value)) {
+    yield containerHeader(value.length, 0x90, 0xdc, 0xdd);
+    for (const item of value) {
+      yield* msgpackPieces(item, depth + 1);
+    }
+    return;
+  }
+
+  if (depth < STREAMED_DEPTH && isPlainObject(value)) {
+    const entries = Object.entries(value).filter(([, item]) => item !== undefined && typeof item !== 'function');
+    yield containerHeader(entries.length, 0x80, 0xde, 0xdf);
+    for (const [key, item] of entries) {
+      yield encoder.encode(key);
+      yield* msgpackPieces(item, depth + 1);
+    }
+    return;
+  }
+
+  yield encoder.encode(value);
+}
+
+/**
+ * Group pieces into chunks of about FLUSH_BYTES
+ */
+function* chunked(pieces: Iterable<string | Uint8Array>): Generator<Buffer> {
+  let parts: Buffer[] = [];
+  let size = 0;
+  for (const piece of pieces) {
+    const part = typeof piece === 'string' ? Buffer.from(piece) : Buffer.from(piece.buffer, piece.byteOffset, piece.byteLength);
+    parts.push(part);
+    size += part.length;
+    if (size >= FLUSH_BYTES) {
+      yield Buffer.concat(parts);
+      parts = [];
+      size = 0;
+    }
+  }
+  if (parts.length > 0) {
+    yield Buffer.concat(parts);
+  }
+}
+
+/**
+ * Send a sync response in the format and compression the client accepts
+ * The body is streamed; a client that disconnects midway only ends its stream.
+ */
+export const sendSyncPayload = async (req: Request, res: Response, body: unknown, status = 200): Promise<void> => {
+  const format = req.accepts(['application/json', ...MSGPACK_TYPES]);
+  const msgpack = typeof format === 'string' && MSGPACK_TYPES.includes(format);
+  const encoding = req.headers['accept-encoding']
+    ? req.acceptsEncodings(['br', 'gzip', 'deflate', 'identity']) || 'identity'
+    : 'identity';
+  const compress = COMPRESSORS[encoding];
+
+  res.status(status);
+  res.setHeader('Content-Type', msgpack ? 'application/msgpack' : 'application/json; charset=utf-8');
+  res.setHeader('Vary', 'Accept, Accept-Encoding');
+  if (compress) {
+    res.setHeader('Content-Encoding', encoding);
+  }
+
+  const source = Readable.from(chunked(msgpack ? msgpackPieces(body) : jsonPieces(body)));
+  try {
+    await (compress ? pipeline(source, compress(), res) : pipeline(source, res));
+  } catch (error) {
+    console.error('[Sync] Response stream failed:', error instanceof Error ? error.message : error);
+  }
+};
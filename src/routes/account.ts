@@ -0,0 +1,73 @@
+import { Router, Request, Response } from 'express';
+import { accountService } from '../services/accountService';
+import { authMiddleware, requireSession } from '../middleware/auth';
+
+const router = Router();
+
+// All routes require a login session (not available to API keys)
+router.use(authMiddleware);
+router.use(requireSession);
+
+/**
+ * GET /api/account/export
+ * Download all of the user's data as a JSON archive (streamed)
+ * Includes soft-deleted categories and todos, in client field names
+ */
+router.get('/export', async (req: Request, res: Response) => {
+  let started = false;
+  
+  try {
+    for await (const chunk of accountService.exportData(req.userId!)) {
+      if (!started) {
+        res.setHeader('Content-Type', 'application/json');
+        res.setHeader('Content-Disposition', `attachment; filename="account-export-${req.userId}.json"`);
+        started = true;
+      }
+      
+      // Respect backpressure so large exports are not buffered in memory
+      if (!res.write(chunk)) {
+        await new Promise(resolve => res.once('drain', resolve));
+      }
+    }
+    
+    console.log(`[Account] Exported data for user ${req.userId}`);
+    res.end();
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Export failed';
+    console.error('[Account] Export error:', message);
+    
+    if (started) {
+      // Headers are already sent; abort so the client sees a truncated download
+      res.destroy();
+      return;
+    }
+    res.status(500).json({ error: message });
+  }
+});
+
+/**
+ * DELETE /api/account
+ * Permanently delete the account and all of its data
+ * Requires password re-confirmation: { password }
+ */
+router.delete('/', async (req: Request, res: Response) => {
+  try {
+    const { password } = req.body;
+    
+    if (!password) {
+      res.status(400).json({ error: 'Password is required' });
+      return;
+    }
+    
+    await accountService.deleteAccount(req.userId!, password);
+    
+    console.log(`[Account] Deleted user ${req.userId}`);
+    res.json({ success: true });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Account deletion failed';
+    console.error('[Account] Delete error:', message);
+    res.status(message === 'Invalid password' ? 403 : 500).json({ error: message });
+  }
+});
+
+export default router;
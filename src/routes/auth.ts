@@ -1,8 +1,40 @@
 import { Router, Request, Response } from 'express';
 import { authService } from '../services/authService';
+import { tokenService } from '../services/tokenService';
+import { loginThrottleService } from '../services/loginThrottleService';
+import { sessionService, Session } from '../services/sessionService';
+import { apiKeyService, ApiKey, isApiKeyScope } from '../services/apiKeyService';
+import { authMiddleware, requireSession } from '../middleware/auth';
 
 const router = Router();
 
+/**
+ * Transform session to API response format
+ */
+const transformSessionToResponse = (session: Session, currentSessionId?: string) => ({
+  id: session.id,
+  device_name: session.device_name,
+  platform: session.platform,
+  last_ip: session.last_ip,
+  created_at: session.created_timestamp,
+  last_seen_at: session.last_seen_at,
+  last_sync_at: session.last_sync_at,
+  current: session.id === currentSessionId,
+});
+
+/**
+ * Transform API key to API response format (never includes the key or its hash)
+ */
+const transformApiKeyToResponse = (apiKey: ApiKey) => ({
+  id: apiKey.id,
+  name: apiKey.name,
+  prefix: apiKey.key_prefix,
+  scopes: apiKey.scopes,
+  created_at: apiKey.created_timestamp,
+  expires_at: apiKey.expires_at,
+  last_used_at: apiKey.last_used_at,
+});
+
 /**
  * POST /api/auth/register
  * Register a new user
@@ -23,6 +55,7 @@ router.post('/register', async (req: Request, res: Response) => {
     res.status(201).json({
       id: user.id,
       email: user.email,
+      email_verified: user.email_verified,
       created_at: user.created_timestamp,  // Map remote to standard response
     });
   } catch (error) {
@@ -34,27 +67,50 @@ router.post('/register', async (req: Request, res: Response) => {
 
 /**
  * POST /api/auth/login
- * Login and get user ID (used as token)
+ * Login and get an access token plus a refresh token
+ * Optional deviceName and platform describe the device for session management
+ * Repeated failures are throttled per email and IP (429 with Retry-After)
  */
 router.post('/login', async (req: Request, res: Response) => {
   try {
-    const { email, password } = req.body;
+    const { email, password, deviceName, platform } = req.body;
     
     if (!email || !password) {
       res.status(400).json({ error: 'Email and password are required' });
       return;
     }
     
-    const user = await authService.login({ email, password });
+    const throttle = await loginThrottleService.check(email, req.ip);
+    if (!throttle.allowed) {
+      res.setHeader('Retry-After', Math.ceil(throttle.retryAfterMs / 1000).toString());
+      res.status(429).json({ error: throttle.reason, retryAfterMs: throttle.retryAfterMs });
+      return;
+    }
+    
+    let user;
+    try {
+      user = await authService.login({ email, password });
+    } catch (error) {
+      await loginThrottleService.recordFailure(email, req.ip, throttle.failures);
+      throw error;
+    }
+    await loginThrottleService.recordSuccess(email);
+    
+    const session = await sessionService.create(user.id, { deviceName, platform, ip: req.ip });
     
     console.log(`[Auth] User logged in: ${user.email}`);
     
-    // Return user ID as the "token" for simplicity
+    const tokens = await tokenService.issueTokens(user.id, session.id);
+    
     res.json({
-      token: user.id,
+      token: tokens.accessToken,
+      refreshToken: tokens.refreshToken,
+      expiresAt: tokens.expiresAt,
+      sessionId: session.id,
       user: {
         id: user.id,
         email: user.email,
+        email_verified: user.email_verified,
       },
     });
   } catch (error) {
@@ -64,4 +120,239 @@ router.post('/login', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * POST /api/auth/refresh
+ * Exchange a refresh token for a new access/refresh token pair
+ * The presented refresh token is revoked (rotation)
+ */
+router.post('/refresh', async (req: Request, res: Response) => {
+  try {
+    const { refreshToken } = req.body;
+    
+    if (!refreshToken) {
+      res.status(400).json({ error: 'Refresh token is required' });
+      return;
+    }
+    
+    const tokens = await tokenService.refresh(refreshToken);
+    
+    res.json({
+      token: tokens.accessToken,
+      refreshToken: tokens.refreshToken,
+      expiresAt: tokens.expiresAt,
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Token refresh failed';
+    console.error('[Auth] Refresh error:', message);
+    res.status(401).json({ error: message });
+  }
+});
+
+/**
+ * POST /api/auth/logout
+ * End the session the refresh token belongs to
+ */
+router.post('/logout', async (req: Request, res: Response) => {
+  try {
+    const { refreshToken } = req.body;
+    
+    if (!refreshToken) {
+      res.status(400).json({ error: 'Refresh token is required' });
+      return;
+    }
+    
+    const sessionId = await tokenService.getSessionId(refreshToken);
+    if (sessionId) {
+      await sessionService.revoke(sessionId);
+    }
+    
+    res.json({ success: true });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Logout failed';
+    console.error('[Auth] Logout error:', message);
+    res.status(500).json({ error: message });
+  }
+});
+
+/**
+ * POST /api/auth/forgot-password
+ * Email a single-use password reset token
+ * Always responds with success so it cannot be used to discover accounts
+ */
+router.post('/forgot-password', async (req: Request, res: Response) => {
+  try {
+    const { email } = req.body;
+    
+    if (!email) {
+      res.status(400).json({ error: 'Email is required' });
+      return;
+    }
+    
+    await authService.requestPasswordReset(email);
+    
+    res.json({ success: true });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Password reset request failed';
+    console.error('[Auth] Forgot password error:', message);
+    res.status(500).json({ error: message });
+  }
+});
+
+/**
+ * POST /api/auth/reset-password
+ * Set a new password with a reset token (signs out all devices)
+ */
+router.post('/reset-password', async (req: Request, res: Response) => {
+  try {
+    const { token, password } = req.body;
+    
+    if (!token || !password) {
+      res.status(400).json({ error: 'Token and password are required' });
+      return;
+    }
+    
+    await authService.resetPassword(token, password);
+    
+    console.log('[Auth] Password reset completed');
+    res.json({ success: true });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Password reset failed';
+    console.error('[Auth] Reset password error:', message);
+    res.status(400).json({ error: message });
+  }
+});
+
+/**
+ * POST /api/auth/verify-email
+ * Confirm the account's email address with a verification token
+ */
+router.post('/verify-email', async (req: Request, res: Response) => {
+  try {
+    const { token } = req.body;
+    
+    if (!token) {
+      res.status(400).json({ error: 'Token is required' });
+      return;
+    }
+    
+    const user = await authService.verifyEmail(token);
+    
+    console.log(`[Auth] Email verified: ${user.email}`);
+    res.json({ success: true, email_verified: true });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Email verification failed';
+    console.error('[Auth] Verify email error:', message);
+    res.status(400).json({ error: message });
+  }
+});
+
+/**
+ * GET /api/auth/sessions
+ * List the devices the user is signed in on
+ */
+router.get('/sessions', authMiddleware, requireSession, async (req: Request, res: Response) => {
+  try {
+    const sessions = await sessionService.getAll(req.userId!);
+    res.json(sessions.map(session => transformSessionToResponse(session, req.sessionId)));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to get sessions';
+    console.error('[Auth] Get sessions error:', message);
+    res.status(500).json({ error: message });
+  }
+});
+
+/**
+ * DELETE /api/auth/sessions/:id
+ * Revoke a session (sign a device out)
+ */
+router.delete('/sessions/:id', authMiddleware, requireSession, async (req: Request, res: Response) => {
+  try {
+    const revoked = await sessionService.revoke(req.params.id as string, req.userId!);
+    
+    if (!revoked) {
+      res.status(404).json({ error: 'Session not found' });
+      return;
+    }
+    
+    console.log(`[Auth] Session revoked: ${req.params.id}`);
+    res.json({ success: true });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to revoke session';
+    console.error('[Auth] Revoke session error:', message);
+    res.status(500).json({ error: message });
+  }
+});
+
+/**
+ * POST /api/auth/api-keys
+ * Create a personal API key: { name, scopes, expires_at? }
+ * The key is only returned in this response
+ */
+router.post('/api-keys', authMiddleware, requireSession, async (req: Request, res: Response) => {
+  try {
+    const { name, scopes, expires_at } = req.body;
+    
+    if (!name) {
+      res.status(400).json({ error: 'Name is required' });
+      return;
+    }
+    
+    if (!Array.isArray(scopes) || scopes.length === 0 || !scopes.every(isApiKeyScope)) {
+      res.status(400).json({ error: 'Scopes must be a non-empty list of known scopes' });
+      return;
+    }
+    
+    if (expires_at !== undefined && expires_at !== null && (typeof expires_at !== 'number' || expires_at <= Date.now())) {
+      res.status(400).json({ error: 'expires_at must be a future timestamp' });
+      return;
+    }
+    
+    const { apiKey, key } = await apiKeyService.create(req.userId!, { name, scopes, expires_at });
+    
+    console.log(`[Auth] API key created: ${apiKey.id}`);
+    res.status(201).json({ ...transformApiKeyToResponse(apiKey), key });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to create API key';
+    console.error('[Auth] Create API key error:', message);
+    res.status(500).json({ error: message });
+  }
+});
+
+/**
+ * GET /api/auth/api-keys
+ * List the user's active API keys
+ */
+router.get('/api-keys', authMiddleware, requireSession, async (req: Request, res: Response) => {
+  try {
+    const apiKeys = await apiKeyService.getAll(req.userId!);
+    res.json(apiKeys.map(transformApiKeyToResponse));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to get API keys';
+    console.error('[Auth] Get API keys error:', message);
+    res.status(500).json({ error: message });
+  }
+});
+
+/**
+ * DELETE /api/auth/api-keys/:id
+ * Revoke an API key
+ */
+router.delete('/api-keys/:id', authMiddleware, requireSession, async (req: Request, res: Response) => {
+  try {
+    const revoked = await apiKeyService.revoke(req.params.id as string, req.userId!);
+    
+    if (!revoked) {
+      res.status(404).json({ error: 'API key not found' });
+      return;
+    }
+    
+    console.log(`[Auth] API key revoked: ${req.params.id}`);
+    res.json({ success: true });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to revoke API key';
+    console.error('[Auth] Revoke API key error:', message);
+    res.status(500).json({ error: message });
+  }
+});
+
 export default router;
@@ -0,0 +1,164 @@
+import { Router, Request, Response } from 'express';
+import { getCollectionService } from '../services/collectionService';
+import { fieldMappingService } from '../services/fieldMappingService';
+import { recordValidationService } from '../services/recordValidationService';
+import { syncEventService } from '../services/syncEventService';
+import { getSyncCollection, SyncCollection } from '../services/syncCollections';
+import { authMiddleware, requireScope } from '../middleware/auth';
+
+/**
+ * REST CRUD for a synced collection, mounted at /api/<collection>
+ * Accepts and returns client field names, mapped to remote column names
+ * by fieldMappingService. Deletes are soft, so they reach devices via sync.
+ * Every mutation is announced to the user's devices (syncEventService).
+ */
+export const createCollectionRouter = (collection: SyncCollection): Router => {
+  const router = Router();
+  const service = getCollectionService(collection);
+  const { label, required } = getSyncCollection(collection);
+  const logPrefix = `[${label.plural}]`;
+  const notFound = `${label.singular} not found`;
+
+  // All routes require authentication (API keys also need the matching scope)
+  router.use(authMiddleware);
+
+  /**
+   * Transform a record from REMOTE to API response format (client field names)
+   */
+  const transformToResponse = (record: any) => fieldMappingService.toLocal(collection, record);
+
+  /**
+   * GET /api/<collection>
+   * Get all records for the authenticated user
+   */
+  router.get('/', requireScope(`${collection}:read`), async (req: Request, res: Response) => {
+    try {
+      const records = await service.getAll(req.userId!);
+      res.json(records.map(transformToResponse));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : `Failed to get ${collection}`;
+      console.error(`${logPrefix} Get all error:`, message);
+      res.status(500).json({ error: message });
+    }
+  });
+
+  /**
+   * GET /api/<collection>/:id
+   * Get a specific record
+   */
+  router.get('/:id', requireScope(`${collection}:read`), async (req: Request, res: Response) => {
+    try {
+      const record = await service.getById(req.params.id as string, req.userId!);
+
+      if (!record) {
+        res.status(404).json({ error: notFound });
+        return;
+      }
+
+      res.json(transformToResponse(record));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : `Failed to get ${label.singular.toLowerCase()}`;
+      console.error(`${logPrefix} Get by ID error:`, message);
+      res.status(500).json({ error: message });
+    }
+  });
+
+  /**
+   * POST /api/<collection>
+   * Create a new record
+   * 400 if a field is invalid (type, length, format) or a reference field
+   * (e.g. a todo's category_id) is not one of the user's live records.
+   */
+  router.post('/', requireScope(`${collection}:write`), async (req: Request, res: Response) => {
+    try {
+      const missing = required.find(field => !req.body[field]);
+      if (missing) {
+        res.status(400).json({ error: `${missing.charAt(0).toUpperCase()}${missing.slice(1)} is required` });
+        return;
+      }
+
+      const invalid = await recordValidationService.validateInput(collection, req.body, 'create', req.userId!);
+      if (invalid.length > 0) {
+        res.status(400).json({ error: invalid[0].message, reasons: invalid });
+        return;
+      }
+
+      // Map client fields to remote column names
+      const input = fieldMappingService.toRemote(collection, req.body, { mergeableOnly: true });
+      const record = await service.create(req.userId!, input);
+
+      await syncEventService.publish(req.userId!, req.sessionId ?? null);
+
+      console.log(`${logPrefix} Created: ${record.id}`);
+      res.status(201).json(transformToResponse(record));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : `Failed to create ${label.singular.toLowerCase()}`;
+      console.error(`${logPrefix} Create error:`, message);
+      res.status(500).json({ error: message });
+    }
+  });
+
+  /**
+   * PUT /api/<collection>/:id
+   * Update a record (fields validated as for POST)
+   */
+  router.put('/:id', requireScope(`${collection}:write`), async (req: Request, res: Response) => {
+    try {
+      const invalid = await recordValidationService.validateInput(collection, req.body, 'update', req.userId!);
+      if (invalid.length > 0) {
+        res.status(400).json({ error: invalid[0].message, reasons: invalid });
+        return;
+      }
+
+      // Map client fields to remote column names
+      const input = fieldMappingService.toRemote(collection, req.body, { mergeableOnly: true });
+      const record = await service.update(req.params.id as string, req.userId!, input);
+
+      if (!record) {
+        res.status(404).json({ error: notFound });
+        return;
+      }
+
+      await syncEventService.publish(req.userId!, req.sessionId ?? null);
+
+      console.log(`${logPrefix} Updated: ${record.id}`);
+      res.json(transformToResponse(record));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : `Failed to update ${label.singular.toLowerCase()}`;
+      console.error(`${logPrefix} Update error:`, message);
+      res.status(500).json({ error: message });
+    }
+  });
+
+  /**
+   * DELETE /api/<collection>/:id
+   * Soft delete a record
+   * Records referencing it follow their onDelete rule (e.g. a category's todos
+   * become uncategorized); 409 if a restrict rule blocks the delete.
+   */
+  router.delete('/:id', requireScope(`${collection}:write`), async (req: Request, res: Response) => {
+    try {
+      const deleted = await service.delete(req.params.id as string, req.userId!);
+
+      if (!deleted) {
+        res.status(404).json({ error: notFound });
+        return;
+      }
+
+      await syncEventService.publish(req.userId!, req.sessionId ?? null);
+
+      console.log(`${logPrefix} Deleted: ${req.params.id}`);
+      res.json({ success: true });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : `Failed to delete ${label.singular.toLowerCase()}`;
+      if (message.startsWith('Cannot delete')) {
+        res.status(409).json({ error: message });
+        return;
+      }
+      console.error(`${logPrefix} Delete error:`, message);
+      res.status(500).json({ error: message });
+    }
+  });
+
+  return router;
+};
@@ -0,0 +1,49 @@
+import { Router, Request, Response } from 'express';
+import { notificationService, Notification } from '../services/notificationService';
+import { authMiddleware, requireScope } from '../middleware/auth';
+
+const router = Router();
+
+// Reminders come from todos, so API keys need the 'todos:read' scope
+router.use(authMiddleware);
+router.use(requireScope('todos:read'));
+
+/**
+ * Transform a notification to API response format
+ */
+const transformNotificationToResponse = (notification: Notification) => ({
+  id: notification.id,
+  todo_id: notification.todo_id,
+  title: notification.title,
+  body: notification.body,
+  due_at: notification.due_at !== null ? Number(notification.due_at) : null,
+  remind_at: notification.remind_at !== null ? Number(notification.remind_at) : null,
+  created_at: Number(notification.created_timestamp),
+});
+
+/**
+ * GET /api/notifications
+ * The user's notifications (todo reminders written by the default notifier), newest first
+ * 
+ * Query params: since (created_at, ms: only newer ones), limit (default 100, max 1000)
+ */
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const since = req.query.since !== undefined ? Number(req.query.since) : undefined;
+    const limit = req.query.limit !== undefined ? Number(req.query.limit) : undefined;
+    
+    if ([since, limit].some(value => value !== undefined && Number.isNaN(value))) {
+      res.status(400).json({ error: 'since and limit must be numbers' });
+      return;
+    }
+    
+    const notifications = await notificationService.getAll(req.userId!, { since, limit });
+    res.json(notifications.map(transformNotificationToResponse));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to get notifications';
+    console.error('[Notifications] Get all error:', message);
+    res.status(500).json({ error: message });
+  }
+});
+
+export default router;
@@ -1,11 +1,141 @@
 import { Router, Request, Response } from 'express';
-import { syncService } from '../services/syncService';
-import { authMiddleware } from '../middleware/auth';
+import { syncService, emptySyncChanges, SYNC_RESET_REQUIRED } from '../services/syncService';
+import { SYNC_COLLECTION_NAMES } from '../services/syncCollections';
+import { conflictService, SyncConflict } from '../services/conflictService';
+import { isUuid } from '../services/recordValidationService';
+import { syncSchemaService } from '../services/syncSchemaService';
+import { syncEventService } from '../services/syncEventService';
+import { clockService } from '../services/clockService';
+import { sessionService } from '../services/sessionService';
+import { syncConfig } from '../config/sync';
+import { syncStatsService, DeviceSyncStats, StaleDevice } from '../services/syncStatsService';
+import { authMiddleware, requireAdmin, requireScope, requireSession, syncSessionMiddleware } from '../middleware/auth';
+import { sendSyncPayload, syncBodyParser } from '../middleware/syncPayload';
 
 const router = Router();
 
-// All routes require authentication
+// All routes require authentication; API keys need the 'sync' scope
+// Pull and push also require an active (non-revoked) device session
 router.use(authMiddleware);
+router.use(requireScope('sync'));
+
+const isUnsupportedVersion = (message: string) => message.startsWith('Unsupported schema version');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Push batch ids are stored in sync_push_batches.batch_id (VARCHAR(255))
+const MAX_BATCH_ID_LENGTH = 255;
+
+// lastPulledAt is a server change sequence (or null/absent for a first sync)
+const isValidCursor = (value: unknown): boolean =>
+  value === undefined || value === null || (Number.isSafeInteger(value) && (value as number) >= 0);
+
+const isPlainObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Why a push `changes` body is malformed, or null when its shape is usable:
+ * created/updated are arrays of records, deleted an array of ids and
+ * deletedAt an object. Record contents are validated per record later.
+ */
+const describeChangesShapeError = (changes: unknown): string | null => {
+  if (!isPlainObject(changes)) {
+    return 'changes must be an object';
+  }
+  for (const collection of SYNC_COLLECTION_NAMES) {
+    const lists = changes[collection];
+    if (lists === undefined || lists === null) {
+      continue;
+    }
+    if (!isPlainObject(lists)) {
+      return `changes.${collection} must be an object`;
+    }
+    for (const list of ['created', 'updated'] as const) {
+      if (lists[list] !== undefined && !(Array.isArray(lists[list]) && lists[list].every(isPlainObject))) {
+        return `changes.${collection}.${list} must be an array of records`;
+      }
+    }
+    if (lists.deleted !== undefined && !(Array.isArray(lists.deleted) && lists.deleted.every((id: unknown) => typeof id === 'string'))) {
+      return `changes.${collection}.deleted must be an array of ids`;
+    }
+    if (lists.deletedAt !== undefined && !isPlainObject(lists.deletedAt)) {
+      return `changes.${collection}.deletedAt must be an object`;
+    }
+  }
+  return null;
+};
+
+// BIGINT columns arrive as strings
+const toNumber = (value: unknown): number | null => (value === null || value === undefined ? null : Number(value));
+
+/**
+ * Transform a logged conflict to API response format
+ */
+const transformConflictToResponse = (conflict: SyncConflict) => ({
+  id: conflict.id,
+  collection: conflict.collection,
+  recordId: conflict.record_id,
+  winner: conflict.winner,
+  reason: conflict.reason,
+  localUpdatedAt: conflict.local_updated_at,
+  remoteUpdatedAt: conflict.remote_updated_at,
+  fields: conflict.fields,
+  localPayload: conflict.local_payload,
+  remotePayload: conflict.remote_payload,
+  losingPayload: conflict.losing_payload,
+  sessionId: conflict.session_id,
+  requestId: conflict.request_id,
+  createdAt: conflict.created_timestamp,
+  reappliedAt: conflict.reapplied_at,
+});
+
+/**
+ * Transform a device's sync stats to API response format
+ */
+const transformDeviceStatsToResponse = (device: DeviceSyncStats, staleBefore: number, currentSessionId?: string) => {
+  const pulls = toNumber(device.pulls) ?? 0;
+  const pushes = toNumber(device.pushes) ?? 0;
+  const lastPullAt = toNumber(device.last_pull_at);
+  const lastPushAt = toNumber(device.last_push_at);
+  const lastSyncedAt = lastPullAt === null && lastPushAt === null ? null : Math.max(lastPullAt ?? 0, lastPushAt ?? 0);
+  
+  return {
+    sessionId: device.session_id,
+    deviceName: device.device_name,
+    platform: device.platform,
+    current: device.session_id === currentSessionId,
+    lastSyncedAt,
+    lastPullAt,
+    lastPushAt,
+    cursor: toNumber(device.last_cursor),
+    behind: toNumber(device.behind),
+    pulls,
+    pullErrors: toNumber(device.pull_errors) ?? 0,
+    pushes,
+    pushErrors: toNumber(device.push_errors) ?? 0,
+    recordsPulled: toNumber(device.records_pulled) ?? 0,
+    recordsPushed: toNumber(device.records_pushed) ?? 0,
+    conflicts: toNumber(device.conflicts) ?? 0,
+    rejected: toNumber(device.rejected) ?? 0,
+    averagePullMs: pulls > 0 ? Number(device.pull_ms) / pulls : null,
+    averagePushMs: pushes > 0 ? Number(device.push_ms) / pushes : null,
+    lastError: device.last_error,
+    lastErrorAt: toNumber(device.last_error_at),
+    stale: (lastSyncedAt ?? 0) < staleBefore,
+  };
+};
+
+/**
+ * Transform a stale device (admin overview) to API response format
+ */
+const transformStaleDeviceToResponse = (device: StaleDevice) => ({
+  sessionId: device.session_id,
+  userId: device.user_id,
+  deviceName: device.device_name,
+  platform: device.platform,
+  lastSyncedAt: toNumber(device.last_synced_at),
+  lastError: device.last_error,
+});
 
 /**
  * POST /api/sync/pull
@@ -13,8 +143,16 @@ router.use(authMiddleware);
  * 
  * Request body:
  * {
- *   lastPulledAt: number | null,
- *   schemaVersion: number
+ *   lastPulledAt: number | null,  // cursor from the previous pull's timestamp (400 unless null or a non-negative integer)
+ *   schemaVersion: number,  // client schema version (defaults to the current one)
+ *   migration?: {  // WatermelonDB migration sync info, after a client schema upgrade
+ *     from: number,
+ *     tables: string[],
+ *     columns: [{ table: string, columns: string[] }]
+ *   } | null,
+ *   limit?: number,  // opt in to chunked pull: max records per page
+ *   cursor?: string,  // continuation cursor from the previous page
+ *   clock?: string  // client's hybrid logical clock
  * }
  * 
  * Response:
@@ -23,33 +161,94 @@ router.use(authMiddleware);
  *     categories: { created: [], updated: [], deleted: [] },
  *     todos: { created: [], updated: [], deleted: [] }
  *   },
- *   timestamp: number
+ *   timestamp: number,  // server change sequence cursor, not a wall-clock time
+ *   clock: string,  // server hybrid logical clock: advance the client's clock past it
+ *   hasMore?: boolean,  // chunked pull only: request again with `cursor`
+ *   cursor?: string | null  // chunked pull only
  * }
+ * 
+ * In chunked mode, keep lastPulledAt unchanged while paging and only store
+ * `timestamp` once hasMore is false. An interrupted sync resumes with the
+ * last cursor received.
+ * 
+ * If lastPulledAt predates the purge of old deletions (tombstones), the pull
+ * fails with 409 { resetRequired: true }: push pending local changes, reset
+ * the local database and pull again with lastPulledAt null.
+ * 
+ * Records only contain the columns known to `schemaVersion`. With `migration`,
+ * collections the upgrade touched are resent in full (not paginated).
+ * 
+ * Bodies may be JSON or MessagePack (Content-Type: application/msgpack),
+ * compressed with Content-Encoding gzip, deflate or br; the response follows
+ * Accept / Accept-Encoding and is streamed (see syncPayload). Request bodies
+ * are limited to SYNC_PULL_BODY_LIMIT_BYTES (push: SYNC_PUSH_BODY_LIMIT_BYTES)
+ * after decompression, else 413.
  */
-router.post('/pull', async (req: Request, res: Response) => {
+router.post('/pull', syncSessionMiddleware, syncBodyParser(syncConfig.pullBodyLimitBytes), async (req: Request, res: Response) => {
+  const startedAt = Date.now();
   try {
-    const { lastPulledAt, schemaVersion } = req.body;
+    const { lastPulledAt, schemaVersion, migration, limit, cursor, clock } = req.body;
+    const version = syncSchemaService.resolveVersion(schemaVersion);
+    
+    if (clock !== undefined) {
+      clockService.receive(clock);
+    }
+    
+    if (!isValidCursor(lastPulledAt)) {
+      res.status(400).json({ error: 'lastPulledAt must be null or a non-negative integer' });
+      return;
+    }
+    
+    if (migration && limit !== undefined) {
+      res.status(400).json({ error: 'Migration pulls cannot be paginated' });
+      return;
+    }
+    
+    if (limit !== undefined && (typeof limit !== 'number' || limit < 1)) {
+      res.status(400).json({ error: 'limit must be a positive number' });
+      return;
+    }
     
     console.log(`[Sync] Pull request from user ${req.userId}`);
     console.log(`[Sync] lastPulledAt: ${lastPulledAt}, schemaVersion: ${schemaVersion}`);
     
-    const response = await syncService.pullChanges(req.userId!, lastPulledAt);
+    const response = limit !== undefined
+      ? await syncService.pullChangesPage(req.userId!, lastPulledAt ?? null, { limit, cursor })
+      : await syncService.pullChanges(
+          req.userId!,
+          lastPulledAt ?? null,
+          syncSchemaService.getMigrationPlan(migration, version)
+        );
     
-    const totalChanges = 
-      response.changes.categories.created.length +
-      response.changes.categories.updated.length +
-      response.changes.categories.deleted.length +
-      response.changes.todos.created.length +
-      response.changes.todos.updated.length +
-      response.changes.todos.deleted.length;
+    const totalChanges = SYNC_COLLECTION_NAMES.reduce((total, collection) => {
+      const { created, updated, deleted } = response.changes[collection];
+      return total + created.length + updated.length + deleted.length;
+    }, 0);
     
     console.log(`[Sync] Pull response: ${totalChanges} changes, timestamp: ${response.timestamp}`);
     
-    res.json(response);
+    await sendSyncPayload(req, res, { ...response, changes: syncSchemaService.shapeOutgoing(version, response.changes) });
+    await syncStatsService.record(req.userId!, req.sessionId, {
+      kind: 'pull',
+      durationMs: Date.now() - startedAt,
+      records: totalChanges,
+      cursor: 'hasMore' in response && response.hasMore ? null : response.timestamp,
+    });
   } catch (error) {
     const message = error instanceof Error ? error.message : 'Pull failed';
     console.error('[Sync] Pull error:', message);
-    res.status(500).json({ error: message });
+    await syncStatsService.record(req.userId!, req.sessionId, {
+      kind: 'pull',
+      durationMs: Date.now() - startedAt,
+      records: 0,
+      error: message,
+    });
+    if (message === SYNC_RESET_REQUIRED) {
+      res.status(409).json({ error: message, resetRequired: true });
+      return;
+    }
+    const status = message === 'Invalid pull cursor' || isUnsupportedVersion(message) ? 400 : 500;
+    res.status(status).json({ error: message });
   }
 });
 
@@ -61,68 +260,397 @@ router.post('/pull', async (req: Request, res: Response) => {
  * {
  *   changes: {
  *     categories: { created: [], updated: [], deleted: [] },
- *     todos: { created: [], updated: [], deleted: [] }
+ *     todos: {
+ *       created: [], updated: [], deleted: [],
+ *       deletedAt?: { [id]: number | { deleted_at: number, _clock?: string } }  // when each delete happened
+ *     }
  *   },
- *   lastPulledAt: number
+ *   lastPulledAt: number | null,  // 400 unless null or a non-negative integer
+ *   schemaVersion?: number,  // or header `X-Schema-Version` (defaults to the current one)
+ *   strict?: boolean,  // reject the whole push if any record is invalid
+ *   clock?: string  // client's hybrid logical clock
  * }
  * 
+ * Conflicts are ordered by hybrid logical clock: a record's `_clock` when it
+ * has one, else its updated_at. Clocks more than SYNC_MAX_CLOCK_SKEW_MS ahead
+ * of the server are clamped to the server clock (updated_at included) or,
+ * with SYNC_CLOCK_SKEW_POLICY=reject, the record is rejected.
+ * 
+ * Deletes are ordered by their `deletedAt` time (now when not sent) and
+ * resolved against edits from other devices by SYNC_DELETE_EDIT_POLICY
+ * (lww, delete-wins or edit-wins). A delete that loses is reported in
+ * `conflicts` with `resurrected: true` and the record is returned in `merged`.
+ * 
+ * A malformed `changes` body (lists that are not arrays, records that are not
+ * objects, deleted ids that are not strings) is rejected with 400.
+ * 
+ * Each record is validated against its collection's fields (required, type,
+ * length, references to the user's own records). Invalid records are skipped
+ * and listed in `rejected` while the rest of the batch is applied; with
+ * `strict: true` nothing is applied and the response is 422.
+ * 
+ * Created records from older schema versions get defaults for fields the
+ * version does not have; updates leave those fields untouched.
+ * 
+ * Records may include WatermelonDB's `_changed` column list; only those fields
+ * are merged (per-field last-write-wins).
+ * 
+ * Idempotency: send an `Idempotency-Key` header (or `batchId` in the body),
+ * a string of up to 255 characters (400 otherwise).
+ * Retrying a push with the same key returns the original response instead of
+ * applying the batch again (header `Idempotent-Replayed: true`).
+ * 
  * Response:
  * {
  *   ok: boolean,
- *   conflicts?: []
+ *   conflicts?: [],
+ *   merged: {  // server state of records where the server kept some fields
+ *     categories: [],
+ *     todos: []
+ *   },
+ *   rejected: [{ collection, recordId, reasons: [{ field, message }] }],
+ *   experimentalRejectedIds?: { todos: [id] },  // same, for WatermelonDB
+ *   clock: string  // server hybrid logical clock after the push
  * }
+ * 
+ * `changes` (and `merged`) have an entry per synced collection (see syncCollections).
+ * Payload formats and compression as for pull.
  */
-router.post('/push', async (req: Request, res: Response) => {
+router.post('/push', syncSessionMiddleware, syncBodyParser(syncConfig.pushBodyLimitBytes), async (req: Request, res: Response) => {
+  const startedAt = Date.now();
   try {
     const { changes, lastPulledAt } = req.body;
+    const batchId = (req.headers['idempotency-key'] as string | undefined) || req.body.batchId || null;
+    const versionHeader = req.headers['x-schema-version'] as string | undefined;
+    const version = syncSchemaService.resolveVersion(
+      req.body.schemaVersion ?? (versionHeader !== undefined ? Number(versionHeader) : undefined)
+    );
     
     if (!changes) {
       res.status(400).json({ error: 'Changes object is required' });
       return;
     }
     
+    const shapeError = describeChangesShapeError(changes);
+    if (shapeError) {
+      res.status(400).json({ error: shapeError });
+      return;
+    }
+    
+    if (!isValidCursor(lastPulledAt)) {
+      res.status(400).json({ error: 'lastPulledAt must be null or a non-negative integer' });
+      return;
+    }
+    
+    if (batchId !== null && (typeof batchId !== 'string' || batchId.length > MAX_BATCH_ID_LENGTH)) {
+      res.status(400).json({
+        error: `Idempotency-Key (or batchId) must be a non-empty string of at most ${MAX_BATCH_ID_LENGTH} characters`,
+      });
+      return;
+    }
+    
     console.log(`[Sync] Push request from user ${req.userId}`);
     console.log(`[Sync] lastPulledAt: ${lastPulledAt}`);
     
+    // Ensure changes has proper structure (every collection, every list)
+    const structuredChanges = emptySyncChanges();
+    for (const collection of SYNC_COLLECTION_NAMES) {
+      structuredChanges[collection] = {
+        created: changes[collection]?.created || [],
+        updated: changes[collection]?.updated || [],
+        deleted: changes[collection]?.deleted || [],
+        deletedAt: changes[collection]?.deletedAt || {},
+      };
+    }
+    
     // Log incoming changes summary
-    const summary = {
-      categories: {
-        created: changes.categories?.created?.length || 0,
-        updated: changes.categories?.updated?.length || 0,
-        deleted: changes.categories?.deleted?.length || 0,
-      },
-      todos: {
-        created: changes.todos?.created?.length || 0,
-        updated: changes.todos?.updated?.length || 0,
-        deleted: changes.todos?.deleted?.length || 0,
-      },
-    };
+    const summary: Record<string, { created: number; updated: number; deleted: number }> = {};
+    for (const collection of SYNC_COLLECTION_NAMES) {
+      const { created, updated, deleted } = structuredChanges[collection];
+      summary[collection] = { created: created.length, updated: updated.length, deleted: deleted.length };
+    }
     console.log(`[Sync] Push changes:`, JSON.stringify(summary));
     
-    // Ensure changes has proper structure
-    const normalizedChanges = {
-      categories: {
-        created: changes.categories?.created || [],
-        updated: changes.categories?.updated || [],
-        deleted: changes.categories?.deleted || [],
-      },
-      todos: {
-        created: changes.todos?.created || [],
-        updated: changes.todos?.updated || [],
-        deleted: changes.todos?.deleted || [],
-      },
+    const normalizedChanges = syncSchemaService.shapeIncoming(version, structuredChanges);
+    
+    const result = await syncService.pushChanges(
+      req.userId!,
+      { changes: normalizedChanges, lastPulledAt: lastPulledAt ?? null, batchId, strict: req.body.strict === true, clock: req.body.clock ?? null },
+      { sessionId: req.sessionId, requestId: req.requestId }
+    );
+    
+    const run = {
+      kind: 'push' as const,
+      records: Object.values(summary).reduce((total, counts) => total + counts.created + counts.updated + counts.deleted, 0),
+      conflicts: result.conflicts.length,
+      rejected: result.rejected.length,
     };
     
-    const result = await syncService.pushChanges(req.userId!, {
-      changes: normalizedChanges,
-      lastPulledAt,
-    });
+    if (!result.ok) {
+      await sendSyncPayload(req, res, { error: 'Push rejected', ok: false, rejected: result.rejected }, 422);
+      await syncStatsService.record(req.userId!, req.sessionId, { ...run, durationMs: Date.now() - startedAt, error: 'Push rejected' });
+      return;
+    }
     
-    res.json(result);
+    if (result.replayed) {
+      res.setHeader('Idempotent-Replayed', 'true');
+    }
+    await sendSyncPayload(req, res, result);
+    await syncStatsService.record(req.userId!, req.sessionId, { ...run, durationMs: Date.now() - startedAt });
   } catch (error) {
     const message = error instanceof Error ? error.message : 'Push failed';
     console.error('[Sync] Push error:', message);
-    res.status(500).json({ error: message, ok: false });
+    await syncStatsService.record(req.userId!, req.sessionId, {
+      kind: 'push',
+      durationMs: Date.now() - startedAt,
+      records: 0,
+      error: message,
+    });
+    const status = message === 'Idempotency key was already used for a different push'
+      ? 422
+      : isUnsupportedVersion(message) ? 400 : 500;
+    res.status(status).json({ error: message, ok: false });
+  }
+});
+
+/**
+ * GET /api/sync/events
+ * Server-Sent Events stream of change notifications for the user's data
+ * 
+ * Sent whenever another device (or a REST call) commits a change:
+ *   event: changes
+ *   data: { "cursor": number }  // pull if cursor > your lastPulledAt
+ * 
+ * A `ready` event with the current cursor is sent on connect, so a client can
+ * catch up on changes made while it was disconnected. Comment lines are sent
+ * as keep-alives. The stream ends when the device session is revoked;
+ * reconnect with a fresh access token after it expires.
+ */
+router.get('/events', async (req: Request, res: Response) => {
+  let unsubscribe: (() => void) | null = null;
+  let heartbeat: NodeJS.Timeout | null = null;
+  let closed = false;
+  
+  const close = () => {
+    closed = true;
+    if (heartbeat) {
+      clearInterval(heartbeat);
+      heartbeat = null;
+    }
+    unsubscribe?.();
+    unsubscribe = null;
+    res.end();
+  };
+  
+  // Registered before the first await: a client gone while subscribing must
+  // not leave the LISTEN subscriber or the heartbeat behind
+  res.on('close', close);
+  if (req.destroyed || res.writableEnded) {
+    close();
+    return;
+  }
+  
+  try {
+    unsubscribe = await syncEventService.subscribe(req.userId!, req.sessionId ?? null, event => {
+      res.write(`event: changes\ndata: ${JSON.stringify({ cursor: event.cursor })}\n\n`);
+    });
+    if (closed) {
+      close();
+      return;
+    }
+    
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no',  // Disable proxy buffering (nginx)
+    });
+    const cursor = await syncService.getCursor(req.userId!);
+    if (closed) {
+      return;
+    }
+    res.write(`event: ready\ndata: ${JSON.stringify({ cursor })}\n\n`);
+    
+    heartbeat = setInterval(async () => {
+      try {
+        if (req.sessionId && !(await sessionService.isActive(req.sessionId))) {
+          console.log(`[Sync] Closing event stream for revoked session ${req.sessionId}`);
+          close();
+          return;
+        }
+      } catch (error) {
+        // Keep the stream open; the session is checked again on the next beat
+        console.error('[Sync] Event stream session check failed:', error instanceof Error ? error.message : error);
+      }
+      res.write(': keep-alive\n\n');
+    }, syncConfig.eventsHeartbeatMs);
+    
+    console.log(`[Sync] Event stream opened for user ${req.userId}`);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to open event stream';
+    console.error('[Sync] Events error:', message);
+    
+    if (res.headersSent || closed) {
+      close();
+      return;
+    }
+    unsubscribe?.();
+    unsubscribe = null;
+    res.status(500).json({ error: message });
+  }
+});
+
+/**
+ * GET /api/sync/status
+ * Sync health of the user's devices (active sessions), most recently synced first
+ * 
+ * Response:
+ * {
+ *   cursor: number,  // the user's current sync cursor
+ *   staleDays: number,  // devices without a successful sync for this long are `stale`
+ *   devices: [{
+ *     sessionId, deviceName, platform, current,
+ *     lastSyncedAt, lastPullAt, lastPushAt,  // last successful syncs (ms)
+ *     cursor, behind,  // cursor of the last completed pull, changes made since
+ *     pulls, pullErrors, pushes, pushErrors,  // attempts and failures
+ *     recordsPulled, recordsPushed, conflicts, rejected,
+ *     averagePullMs, averagePushMs, lastError, lastErrorAt, stale
+ *   }]
+ * }
+ * 
+ * Syncs made with API keys are not counted (they have no device).
+ */
+router.get('/status', async (req: Request, res: Response) => {
+  try {
+    const staleBefore = Date.now() - syncConfig.staleDeviceDays * DAY_MS;
+    const devices = await syncStatsService.getDevices(req.userId!);
+    
+    res.json({
+      cursor: await syncService.getCursor(req.userId!),
+      staleDays: syncConfig.staleDeviceDays,
+      devices: devices.map(device => transformDeviceStatsToResponse(device, staleBefore, req.sessionId)),
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to get sync status';
+    console.error('[Sync] Get status error:', message);
+    res.status(500).json({ error: message });
+  }
+});
+
+/**
+ * GET /api/sync/status/admin
+ * Sync health across all users (administrators only, login sessions)
+ * 
+ * Query params: staleDays (default SYNC_STALE_DEVICE_DAYS)
+ * 
+ * Response:
+ * {
+ *   staleDays: number,
+ *   devices: number,  // active devices that have synced
+ *   staleDevices: number,  // of which without a successful sync for staleDays
+ *   errorRate: { pull, push },  // failed / all attempts
+ *   averageDurationMs: { pull, push },
+ *   averageRecords: { pull, push },  // records per successful pull / push
+ *   averageBacklog: number,  // changes a device has not pulled yet
+ *   stale: [{ sessionId, userId, deviceName, platform, lastSyncedAt, lastError }]  // first 100
+ * }
+ * Rates and averages are null when there is nothing to average.
+ */
+router.get('/status/admin', requireSession, requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const staleDays = req.query.staleDays !== undefined ? Number(req.query.staleDays) : syncConfig.staleDeviceDays;
+    if (Number.isNaN(staleDays) || staleDays < 0) {
+      res.status(400).json({ error: 'staleDays must be a non-negative number' });
+      return;
+    }
+    
+    const overview = await syncStatsService.getOverview(Date.now() - staleDays * DAY_MS);
+    res.json({ staleDays, ...overview, stale: overview.stale.map(transformStaleDeviceToResponse) });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to get sync overview';
+    console.error('[Sync] Get admin status error:', message);
+    res.status(500).json({ error: message });
+  }
+});
+
+/**
+ * GET /api/sync/conflicts
+ * Query the persisted conflict log (newest first)
+ * 
+ * Only resolutions that discarded data are logged (each entry can be
+ * re-applied): a clean last-write-wins, where the pushed version replaced a
+ * server version the client had already pulled, is reported in the push
+ * response's `conflicts` but not stored.
+ * 
+ * Query params: collection, recordId (UUID), since, until (ms timestamps),
+ * limit (1-1000, default 100)
+ */
+router.get('/conflicts', async (req: Request, res: Response) => {
+  try {
+    const { collection, recordId, since, until, limit } = req.query;
+    
+    const toNumber = (value: unknown) => (value !== undefined ? Number(value) : undefined);
+    const filters = {
+      collection: collection as string | undefined,
+      recordId: recordId as string | undefined,
+      since: toNumber(since),
+      until: toNumber(until),
+      limit: toNumber(limit),
+    };
+    
+    if ([filters.since, filters.until, filters.limit].some(value => value !== undefined && Number.isNaN(value))) {
+      res.status(400).json({ error: 'since, until and limit must be numbers' });
+      return;
+    }
+    
+    if (recordId !== undefined && !isUuid(recordId)) {
+      res.status(400).json({ error: 'recordId must be a UUID' });
+      return;
+    }
+    
+    const conflicts = await conflictService.getAll(req.userId!, filters);
+    res.json(conflicts.map(transformConflictToResponse));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to get conflicts';
+    console.error('[Sync] Get conflicts error:', message);
+    res.status(500).json({ error: message });
+  }
+});
+
+/**
+ * POST /api/sync/conflicts/:id/reapply
+ * Re-apply the losing version of a conflict as a new change
+ * 
+ * The values are validated like a pushed update (400 with `reasons` when no
+ * longer valid, e.g. a deleted category) and deletes follow the onDelete
+ * rules. 409 if the conflict was already re-applied, the record is gone or
+ * deleted, or a restrict rule blocks the delete.
+ * 
+ * Response: the updated record in LOCAL field names
+ */
+router.post('/conflicts/:id/reapply', async (req: Request, res: Response) => {
+  try {
+    const result = await syncService.reapplyConflict(req.userId!, req.params.id as string);
+    
+    if (!result) {
+      res.status(404).json({ error: 'Conflict not found' });
+      return;
+    }
+    
+    if ('reasons' in result) {
+      res.status(400).json({ error: result.reasons[0].message, reasons: result.reasons });
+      return;
+    }
+    
+    res.json({ ok: true, record: result.record });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to re-apply conflict';
+    console.error('[Sync] Re-apply conflict error:', message);
+    const conflicted = message === 'Conflict already re-applied' ||
+      message === 'Record no longer exists' ||
+      message === 'Record has been deleted' ||
+      message.startsWith('Cannot delete');
+    res.status(conflicted ? 409 : 500).json({ error: message });
   }
 });
 
@@ -0,0 +1,106 @@
+import { query } from '../config/database';
+import { passwordService } from './passwordService';
+import { sessionService } from './sessionService';
+import { fieldMappingService } from './fieldMappingService';
+import { getSyncCollection, SYNC_COLLECTION_NAMES, SyncCollection } from './syncCollections';
+
+/**
+ * Account Service
+ * Personal data export and account deletion (data-subject requests)
+ */
+
+// Rows fetched per query while streaming an export
+const EXPORT_BATCH_SIZE = 500;
+
+/**
+ * Transforms from REMOTE column names to client field names
+ * Unlike the REST/sync transforms, records keep their soft-deleted state
+ */
+const transformUser = (user: any) => ({
+  id: user.id,
+  email: user.email,
+  email_verified: user.email_verified,
+  created_at: user.created_timestamp,
+  updated_at: user.modified_at,
+});
+
+const transformRecord = (collection: SyncCollection, record: any) => ({
+  ...fieldMappingService.toLocal(collection, record),
+  is_deleted: record.is_deleted,
+});
+
+/**
+ * Yield every row of a user's table in id order, one batch at a time (keyset pagination)
+ */
+async function* streamRows(collection: SyncCollection, userId: string): AsyncGenerator<any> {
+  const { table, ownerColumn } = getSyncCollection(collection);
+  let lastId: string | null = null;
+
+  while (true) {
+    const result: { rows: any[] } = await query(
+      `SELECT * FROM ${table}
+       WHERE ${ownerColumn} = $1 AND ($2::uuid IS NULL OR id > $2)
+       ORDER BY id
+       LIMIT $3`,
+      [userId, lastId, EXPORT_BATCH_SIZE]
+    );
+
+    for (const row of result.rows) {
+      yield row;
+    }
+
+    if (result.rows.length < EXPORT_BATCH_SIZE) {
+      return;
+    }
+    lastId = result.rows[result.rows.length - 1].id;
+  }
+}
+
+export const accountService = {
+  /**
+   * Export all of a user's data (including soft-deleted rows) as JSON text chunks
+   * The archive is produced incrementally so large accounts are never held in memory
+   */
+  async *exportData(userId: string): AsyncGenerator<string> {
+    const userResult = await query('SELECT * FROM users WHERE id = $1', [userId]);
+    if (userResult.rows.length === 0) {
+      throw new Error('User not found');
+    }
+
+    yield `{"exported_at":${Date.now()},"user":${JSON.stringify(transformUser(userResult.rows[0]))}`;
+
+    // One array per synced collection
+    for (const collection of SYNC_COLLECTION_NAMES) {
+      yield `,${JSON.stringify(collection)}:[`;
+      let first = true;
+      for await (const row of streamRows(collection, userId)) {
+        yield (first ? '' : ',') + JSON.stringify(transformRecord(collection, row));
+        first = false;
+      }
+      yield ']';
+    }
+
+    yield '}';
+  },
+
+  /**
+   * Permanently delete a user and all of their data
+   * Requires the current password. Synced records, sessions and tokens are
+   * removed by ON DELETE CASCADE.
+   */
+  async deleteAccount(userId: string, password: string): Promise<void> {
+    const result = await query('SELECT password FROM users WHERE id = $1', [userId]);
+    if (result.rows.length === 0) {
+      throw new Error('User not found');
+    }
+
+    const valid = await passwordService.verify(password, result.rows[0].password);
+    if (!valid) {
+      throw new Error('Invalid password');
+    }
+
+    // Revoke first so cached session checks on this instance stop accepting tokens
+    await sessionService.revokeAllForUser(userId);
+    await query('DELETE FROM users WHERE id = $1', [userId]);
+  },
+};
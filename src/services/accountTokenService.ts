@@ -0,0 +1,53 @@
+import crypto from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { query } from '../config/database';
+
+/**
+ * Single-use, expiring tokens for account flows (password reset, email verification)
+ * Only a SHA-256 hash of each token is stored
+ */
+
+export type AccountTokenPurpose = 'password_reset' | 'email_verification';
+
+const hashToken = (token: string): string =>
+  crypto.createHash('sha256').update(token).digest('hex');
+
+export const accountTokenService = {
+  /**
+   * Create a token for a user, invalidating earlier unused tokens with the same purpose
+   * Returns the raw token (only ever sent to the user, never stored)
+   */
+  async create(userId: string, purpose: AccountTokenPurpose, ttlSeconds: number): Promise<string> {
+    const token = crypto.randomBytes(32).toString('base64url');
+    const now = Date.now();
+
+    await query(
+      `UPDATE account_tokens SET used_at = $1
+       WHERE user_id = $2 AND purpose = $3 AND used_at IS NULL`,
+      [now, userId, purpose]
+    );
+
+    await query(
+      `INSERT INTO account_tokens (id, user_id, purpose, token_hash, created_timestamp, expires_at)
+       VALUES ($1, $2, $3, $4, $5, $6)`,
+      [uuidv4(), userId, purpose, hashToken(token), now, now + ttlSeconds * 1000]
+    );
+
+    return token;
+  },
+
+  /**
+   * Consume a token atomically
+   * Returns the user ID, or null if the token is unknown, expired or already used
+   */
+  async consume(token: string, purpose: AccountTokenPurpose): Promise<string | null> {
+    const now = Date.now();
+    const result = await query(
+      `UPDATE account_tokens SET used_at = $1
+       WHERE token_hash = $2 AND purpose = $3 AND used_at IS NULL AND expires_at > $1
+       RETURNING user_id`,
+      [now, hashToken(token), purpose]
+    );
+    return result.rows[0]?.user_id || null;
+  },
+};
@@ -0,0 +1,108 @@
+import crypto from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { query } from '../config/database';
+import { SYNC_COLLECTION_NAMES, SyncCollection } from './syncCollections';
+
+/**
+ * API Key Service
+ *
+ * Personal API keys let scripts call the API without a login session.
+ * Keys look like `tdk_<random>`, are shown once at creation and stored as a
+ * SHA-256 hash (keys are high-entropy, so a slow hash is not needed).
+ */
+
+export const API_KEY_PREFIX = 'tdk_';
+
+// Every synced collection has a read and a write scope
+export type ApiKeyScope = `${SyncCollection}:read` | `${SyncCollection}:write` | 'sync';
+
+export const API_KEY_SCOPES: readonly ApiKeyScope[] = [
+  ...SYNC_COLLECTION_NAMES.flatMap(collection => [`${collection}:read`, `${collection}:write`] as const),
+  'sync',
+];
+
+export interface ApiKey {
+  id: string;
+  user_id: string;
+  name: string;
+  key_prefix: string;
+  key_hash: string;
+  scopes: ApiKeyScope[];
+  created_timestamp: number;
+  expires_at: number | null;
+  last_used_at: number | null;
+  revoked_at: number | null;
+}
+
+export interface CreateApiKeyInput {
+  name: string;
+  scopes: ApiKeyScope[];
+  expires_at?: number | null;
+}
+
+const hashKey = (key: string): string =>
+  crypto.createHash('sha256').update(key).digest('hex');
+
+export const isApiKeyScope = (scope: unknown): scope is ApiKeyScope =>
+  typeof scope === 'string' && (API_KEY_SCOPES as readonly string[]).includes(scope);
+
+export const apiKeyService = {
+  /**
+   * Create an API key
+   * Returns the stored record and the raw key (the only time it is available)
+   */
+  async create(userId: string, input: CreateApiKeyInput): Promise<{ apiKey: ApiKey; key: string }> {
+    const key = API_KEY_PREFIX + crypto.randomBytes(32).toString('base64url');
+    const id = uuidv4();
+    const now = Date.now();
+
+    const result = await query(
+      `INSERT INTO api_keys (id, user_id, name, key_prefix, key_hash, scopes, created_timestamp, expires_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+       RETURNING *`,
+      [id, userId, input.name, key.substring(0, 12), hashKey(key), input.scopes, now, input.expires_at || null]
+    );
+
+    return { apiKey: result.rows[0], key };
+  },
+
+  /**
+   * Get all active API keys for a user
+   */
+  async getAll(userId: string): Promise<ApiKey[]> {
+    const result = await query(
+      `SELECT * FROM api_keys
+       WHERE user_id = $1 AND revoked_at IS NULL
+       ORDER BY created_timestamp DESC`,
+      [userId]
+    );
+    return result.rows;
+  },
+
+  /**
+   * Revoke an API key
+   */
+  async revoke(id: string, userId: string): Promise<boolean> {
+    const result = await query(
+      `UPDATE api_keys SET revoked_at = $1
+       WHERE id = $2 AND user_id = $3 AND revoked_at IS NULL`,
+      [Date.now(), id, userId]
+    );
+    return (result.rowCount ?? 0) > 0;
+  },
+
+  /**
+   * Look up a raw key, recording its use
+   * Returns null if the key is unknown, revoked or expired
+   */
+  async authenticate(key: string): Promise<ApiKey | null> {
+    const now = Date.now();
+    const result = await query(
+      `UPDATE api_keys SET last_used_at = $1
+       WHERE key_hash = $2 AND revoked_at IS NULL AND (expires_at IS NULL OR expires_at > $1)
+       RETURNING *`,
+      [now, hashKey(key)]
+    );
+    return result.rows[0] || null;
+  },
+};
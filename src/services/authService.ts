@@ -1,5 +1,10 @@
 import { v4 as uuidv4 } from 'uuid';
 import { query } from '../config/database';
+import { authConfig } from '../config/auth';
+import { passwordService } from './passwordService';
+import { accountTokenService } from './accountTokenService';
+import { sessionService } from './sessionService';
+import { mailService } from './mailService';
 
 /**
  * User interface using REMOTE column names (PostgreSQL)
@@ -8,7 +13,10 @@ import { query } from '../config/database';
 export interface User {
   id: string;
   email: string;
-  password: string;
+  password: string;  // scrypt hash (legacy rows may still hold plaintext until next login)
+  email_verified: boolean;
+  email_verified_at: number | null;
+  is_admin: boolean;  // Granted in the database; unlocks the admin sync overview
   created_timestamp: number;
   modified_at: number;
 }
@@ -23,10 +31,14 @@ export interface LoginInput {
   password: string;
 }
 
+// Hash verified against when the email is unknown, so login takes the same time either way
+let dummyHash: Promise<string> | null = null;
+
 export const authService = {
   /**
    * Register a new user
-   * Note: Password is stored as plain text for POC purposes only
+   * Password is stored as a salted scrypt hash
+   * The account starts unverified and a verification email is sent
    */
   async register(input: RegisterInput): Promise<User> {
     const { email, password } = input;
@@ -39,36 +51,151 @@ export const authService = {
     
     const id = uuidv4();
     const now = Date.now();
+    const passwordHash = await passwordService.hash(password);
     
     const result = await query(
       `INSERT INTO users (id, email, password, created_timestamp, modified_at)
        VALUES ($1, $2, $3, $4, $5)
        RETURNING *`,
-      [id, email, password, now, now]
+      [id, email, passwordHash, now, now]
     );
+    const user: User = result.rows[0];
     
-    return result.rows[0];
+    // The account is usable right away; a mail failure should not fail registration
+    try {
+      await this.sendVerificationEmail(user);
+    } catch (error) {
+      console.error('[Auth] Failed to send verification email:', error);
+    }
+    
+    return user;
   },
   
   /**
    * Login user
-   * Note: Plain text password comparison for POC purposes only
+   * Verifies the password in constant time and transparently upgrades legacy
+   * plaintext rows or hashes made with outdated parameters
    */
   async login(input: LoginInput): Promise<User> {
     const { email, password } = input;
     
-    const result = await query(
-      'SELECT * FROM users WHERE email = $1 AND password = $2',
-      [email, password]
-    );
+    const result = await query('SELECT * FROM users WHERE email = $1', [email]);
+    const user: User | undefined = result.rows[0];
     
-    if (result.rows.length === 0) {
+    if (!user) {
+      dummyHash = dummyHash || passwordService.hash('dummy-password');
+      await passwordService.verify(password, await dummyHash);
       throw new Error('Invalid email or password');
     }
     
+    const valid = await passwordService.verify(password, user.password);
+    if (!valid) {
+      throw new Error('Invalid email or password');
+    }
+    
+    if (passwordService.needsRehash(user.password)) {
+      const upgraded = await passwordService.hash(password);
+      // Only replace the value we verified against, in case of a concurrent change
+      await query(
+        'UPDATE users SET password = $1 WHERE id = $2 AND password = $3',
+        [upgraded, user.id, user.password]
+      );
+      user.password = upgraded;
+      console.log(`[Auth] Upgraded password hash for user ${user.id}`);
+    }
+    
+    return user;
+  },
+  
+  /**
+   * Send an email verification link to a user
+   */
+  async sendVerificationEmail(user: Pick<User, 'id' | 'email'>): Promise<void> {
+    const token = await accountTokenService.create(user.id, 'email_verification', authConfig.emailVerificationTtl);
+    
+    await mailService.send({
+      to: user.email,
+      subject: 'Verify your email address',
+      body: [
+        'Confirm your email address by opening this link:',
+        `${authConfig.appBaseUrl}/verify-email?token=${token}`,
+        '',
+        `Verification code: ${token}`,
+      ].join('\n'),
+    });
+  },
+  
+  /**
+   * Mark a user's email as verified using a verification token
+   */
+  async verifyEmail(token: string): Promise<User> {
+    const userId = await accountTokenService.consume(token, 'email_verification');
+    if (!userId) {
+      throw new Error('Invalid or expired verification token');
+    }
+    
+    const now = Date.now();
+    const result = await query(
+      `UPDATE users SET email_verified = TRUE, email_verified_at = $1, modified_at = $1
+       WHERE id = $2
+       RETURNING *`,
+      [now, userId]
+    );
     return result.rows[0];
   },
   
+  /**
+   * Start a password reset
+   * Does nothing (silently) for unknown emails so the endpoint cannot be used to probe accounts
+   */
+  async requestPasswordReset(email: string): Promise<void> {
+    const result = await query('SELECT id, email FROM users WHERE email = $1', [email]);
+    const user = result.rows[0];
+    if (!user) {
+      return;
+    }
+    
+    const token = await accountTokenService.create(user.id, 'password_reset', authConfig.passwordResetTtl);
+    
+    await mailService.send({
+      to: user.email,
+      subject: 'Reset your password',
+      body: [
+        'Someone asked to reset the password for this account. If it was you, open this link:',
+        `${authConfig.appBaseUrl}/reset-password?token=${token}`,
+        '',
+        `Reset code: ${token}`,
+        '',
+        'If you did not ask for this, you can ignore this email.',
+      ].join('\n'),
+    });
+  },
+  
+  /**
+   * Set a new password using a reset token
+   * Signs the user out of every device. Completing a reset also proves
+   * ownership of the email address, so the account is marked verified.
+   */
+  async resetPassword(token: string, newPassword: string): Promise<void> {
+    const userId = await accountTokenService.consume(token, 'password_reset');
+    if (!userId) {
+      throw new Error('Invalid or expired reset token');
+    }
+    
+    const now = Date.now();
+    const passwordHash = await passwordService.hash(newPassword);
+    
+    await query(
+      `UPDATE users
+       SET password = $1, modified_at = $2,
+           email_verified = TRUE, email_verified_at = COALESCE(email_verified_at, $2)
+       WHERE id = $3`,
+      [passwordHash, now, userId]
+    );
+    
+    await sessionService.revokeAllForUser(userId);
+  },
+  
   /**
    * Get user by ID
    */
@@ -0,0 +1,115 @@
+import { syncConfig } from '../config/sync';
+
+/**
+ * Clock Service
+ *
+ * Hybrid logical clock (HLC) used to order sync writes, so a device whose
+ * wall clock runs ahead cannot win every conflict. A timestamp is a physical
+ * time (ms) plus a logical counter, encoded at fixed width
+ * ("001700000000000-000000") so timestamps compare as plain strings.
+ *
+ * The server ticks its clock for its own writes and advances it past every
+ * client clock it accepts; pull and push responses carry the result so
+ * clients can do the same. Timestamps more than syncConfig.maxClockSkewMs
+ * ahead of the server's wall clock are never accepted into the clock.
+ *
+ * Each server instance keeps its own clock; instances stay ordered by their
+ * physical (NTP-synced) time.
+ */
+
+export type Hlc = string;
+
+interface ClockState {
+  physical: number;  // ms since epoch
+  counter: number;  // orders events within the same ms
+}
+
+const PHYSICAL_DIGITS = 15;
+const COUNTER_DIGITS = 6;
+const MAX_COUNTER = 10 ** COUNTER_DIGITS - 1;
+const HLC_PATTERN = /^\d{15}-\d{6}$/;
+
+let state: ClockState = { physical: 0, counter: 0 };
+
+const format = ({ physical, counter }: ClockState): Hlc =>
+  `${String(physical).padStart(PHYSICAL_DIGITS, '0')}-${String(counter).padStart(COUNTER_DIGITS, '0')}`;
+
+const parse = (hlc: Hlc): ClockState => {
+  const [physical, counter] = hlc.split('-');
+  return { physical: Number(physical), counter: Number(counter) };
+};
+
+/**
+ * Store a new clock state (a counter overflow moves on to the next ms)
+ */
+const advanceTo = (physical: number, counter: number): Hlc => {
+  state = counter > MAX_COUNTER ? { physical: physical + 1, counter: 0 } : { physical, counter };
+  return format(state);
+};
+
+export const clockService = {
+  /**
+   * Tick the server clock for a local event (a server write or a response)
+   */
+  now(): Hlc {
+    const wall = Date.now();
+    return wall > state.physical ? advanceTo(wall, 0) : advanceTo(state.physical, state.counter + 1);
+  },
+
+  /**
+   * Advance the server clock past a client's clock
+   * Clocks too far ahead (see isTooFarAhead) are ignored. Returns the new server clock.
+   */
+  receive(remote: Hlc): Hlc {
+    if (!this.isValid(remote) || this.isTooFarAhead(remote)) {
+      return this.now();
+    }
+
+    const wall = Date.now();
+    const other = parse(remote);
+    const physical = Math.max(wall, state.physical, other.physical);
+
+    if (physical === state.physical && physical === other.physical) {
+      return advanceTo(physical, Math.max(state.counter, other.counter) + 1);
+    }
+    if (physical === state.physical) {
+      return advanceTo(physical, state.counter + 1);
+    }
+    if (physical === other.physical) {
+      return advanceTo(physical, other.counter + 1);
+    }
+    return advanceTo(physical, 0);
+  },
+
+  /**
+   * Wall-clock time as a clock value (for clients and rows without an HLC)
+   */
+  fromMillis(ms: number): Hlc {
+    return format({ physical: Math.max(0, Math.floor(ms) || 0), counter: 0 });
+  },
+
+  /**
+   * Physical part of a clock value (ms)
+   */
+  toMillis(hlc: Hlc): number {
+    return parse(hlc).physical;
+  },
+
+  isValid(value: unknown): value is Hlc {
+    return typeof value === 'string' && HLC_PATTERN.test(value);
+  },
+
+  /**
+   * Whether a clock is further ahead of the server's wall clock than allowed
+   */
+  isTooFarAhead(hlc: Hlc): boolean {
+    return parse(hlc).physical > Date.now() + syncConfig.maxClockSkewMs;
+  },
+
+  /**
+   * Later of two clock values
+   */
+  max(a: Hlc, b: Hlc): Hlc {
+    return a > b ? a : b;
+  },
+};
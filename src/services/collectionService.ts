@@ -0,0 +1,450 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Pool, PoolClient } from 'pg';
+import pool, { getClient } from '../config/database';
+import { clockService, Hlc } from './clockService';
+import { referenceService } from './referenceService';
+import { getSyncCollection, SyncCollection, SyncedCollectionDefinition } from './syncCollections';
+
+/**
+ * Collection Service
+ *
+ * Generic data access for a synced collection (see syncCollections), using
+ * REMOTE column names. Every query is scoped to the owning user and deletes
+ * are soft, so deletions reach other devices through sync.
+ */
+
+/**
+ * Columns every synced table has besides its mapped ones
+ */
+export interface SyncedRow {
+  id: string;
+  created_timestamp: number;
+  modified_at: number;
+  is_deleted: boolean;
+  deleted_at_server: number | null;  // Server time of the soft delete (tombstone retention)
+  field_timestamps: Record<string, number>;  // Column -> last change time (updated_at of the write)
+  clock: Hlc | null;  // Hybrid logical clock of the last write (null if written before clocks)
+  field_clocks: Record<string, Hlc>;  // Column -> clock of its last write (for field-level merge)
+  change_seq: number;  // Server-assigned sync sequence, bumped on every write
+  created_seq: number;  // change_seq at insert time
+}
+
+export interface RowChanges<TRow> {
+  created: TRow[];
+  updated: TRow[];
+  deleted: string[];
+}
+
+export interface ChangesPageRange {
+  since: number | null;
+  until: number;
+  afterSeq: number;
+  limit: number;
+}
+
+/**
+ * A merged sync push write for one row (see updateMany)
+ */
+export interface RowMerge {
+  id: string;
+  values: Record<string, any>;  // Mergeable REMOTE columns to set (others keep their value)
+  fieldTimestamps: Record<string, number>;  // New field_timestamps
+  fieldClocks: Record<string, Hlc>;  // New field_clocks
+  clock: Hlc;  // New row clock
+  modifiedAt: number;  // Stored as GREATEST(modified_at, modifiedAt)
+  revive: boolean;  // Clear is_deleted (and deleted_at_server)
+}
+
+/**
+ * A sync push deletion for one row (see deleteMany)
+ */
+export interface RowDeletion {
+  id: string;
+  modifiedAt: number;  // When the record was deleted (client time; deleted_at_server is set to now)
+  clock: Hlc;  // New row clock
+}
+
+// Mapped columns written by the service itself rather than taken from the input as-is
+const MANAGED_COLUMNS = ['id', 'created_timestamp', 'modified_at'];
+
+// Rows per multi-row statement (keeps bind parameters well under PostgreSQL's 65535)
+const BULK_CHUNK_SIZE = 500;
+
+const chunk = <T>(items: T[]): T[][] => {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += BULK_CHUNK_SIZE) {
+    chunks.push(items.slice(i, i + BULK_CHUNK_SIZE));
+  }
+  return chunks;
+};
+
+export const createCollectionService = <
+  TRow extends SyncedRow = SyncedRow,
+  TCreate extends object = Record<string, any>,
+  TUpdate extends object = Record<string, any>
+>(definition: SyncedCollectionDefinition) => {
+  const { table, ownerColumn } = definition;
+  const collection = definition.name as SyncCollection;
+  const mergeableColumns = definition.fields.filter(field => field.mergeable).map(field => field.remote);
+
+  /**
+   * Full row for insert: mapped columns missing from the input get their declared default
+   * The write is ordered by the input's `clock` (sync push) or a new server clock.
+   */
+  const buildRow = (userId: string, input: TCreate): Record<string, any> => {
+    const values: Record<string, any> = input;
+    const clock: Hlc = values.clock || clockService.now();
+    const now = Date.now();
+    const modifiedAt = values.modified_at || now;
+
+    const row: Record<string, any> = {
+      id: values.id || uuidv4(),
+      [ownerColumn]: userId,
+      created_timestamp: values.created_timestamp || now,
+      modified_at: modifiedAt,
+    };
+    for (const field of definition.fields) {
+      if (!MANAGED_COLUMNS.includes(field.remote)) {
+        row[field.remote] = values[field.remote] ?? field.default ?? null;
+      }
+    }
+
+    // Every column starts with the record's modification time and clock (for field-level merge)
+    const fieldTimestamps: Record<string, number> = {};
+    const fieldClocks: Record<string, Hlc> = {};
+    for (const column of mergeableColumns) {
+      fieldTimestamps[column] = Number(modifiedAt);
+      fieldClocks[column] = clock;
+    }
+    row.field_timestamps = fieldTimestamps;
+    row.clock = clock;
+    row.field_clocks = fieldClocks;
+    row.is_deleted = false;
+    return row;
+  };
+
+  /**
+   * Soft delete within the caller's transaction (see delete)
+   */
+  const softDelete = async (id: string, userId: string, db: Pool | PoolClient): Promise<boolean> => {
+    const blocked = await referenceService.findBlocked(collection, userId, [id], {}, db);
+    if (blocked.size > 0) {
+      throw new Error(`Cannot delete: ${[...blocked.values()][0]}`);
+    }
+
+    const now = Date.now();
+    const result = await db.query(
+      `UPDATE ${table}
+       SET is_deleted = TRUE, modified_at = $1, deleted_at_server = $1, clock = $2
+       WHERE id = $3 AND ${ownerColumn} = $4
+       RETURNING id`,
+      [now, clockService.now(), id, userId]
+    );
+    await referenceService.applyDeleteRules(collection, userId, result.rows.map(row => row.id), db);
+    return result.rows.length > 0;
+  };
+
+  return {
+    definition,
+
+    /**
+     * Get all records for a user (excluding deleted)
+     */
+    async getAll(userId: string, db: Pool | PoolClient = pool): Promise<TRow[]> {
+      const result = await db.query(
+        `SELECT * FROM ${table}
+         WHERE ${ownerColumn} = $1 AND is_deleted = FALSE
+         ORDER BY created_timestamp DESC`,
+        [userId]
+      );
+      return result.rows;
+    },
+
+    /**
+     * Get a record by ID
+     */
+    async getById(id: string, userId: string, db: Pool | PoolClient = pool): Promise<TRow | null> {
+      const result = await db.query(
+        `SELECT * FROM ${table} WHERE id = $1 AND ${ownerColumn} = $2`,
+        [id, userId]
+      );
+      return result.rows[0] || null;
+    },
+
+    /**
+     * Create a record
+     * Mapped columns missing from the input get their declared default.
+     */
+    async create(userId: string, input: TCreate, db: Pool | PoolClient = pool): Promise<TRow> {
+      const row = buildRow(userId, input);
+      const columns = Object.keys(row);
+      const result = await db.query(
+        `INSERT INTO ${table} (${columns.join(', ')})
+         VALUES (${columns.map((_, i) => `$${i + 1}`).join(', ')})
+         RETURNING *`,
+        columns.map(column => row[column])
+      );
+      return result.rows[0];
+    },
+
+    /**
+     * Get a user's records by ID (deleted ones included), in one query
+     */
+    async getByIds(ids: string[], userId: string, db: Pool | PoolClient = pool): Promise<TRow[]> {
+      if (ids.length === 0) {
+        return [];
+      }
+      const result = await db.query(
+        `SELECT * FROM ${table} WHERE id = ANY($1::uuid[]) AND ${ownerColumn} = $2`,
+        [ids, userId]
+      );
+      return result.rows;
+    },
+
+    /**
+     * Insert many records with multi-row INSERTs
+     * Ids that already exist (e.g. taken by another account) are skipped:
+     * only the inserted rows are returned.
+     */
+    async createMany(userId: string, inputs: TCreate[], db: Pool | PoolClient = pool): Promise<TRow[]> {
+      const inserted: TRow[] = [];
+
+      for (const inputChunk of chunk(inputs)) {
+        const rows = inputChunk.map(input => buildRow(userId, input));
+        const columns = Object.keys(rows[0]);
+        const values: any[] = [];
+        const tuples = rows.map(row => {
+          const placeholders = columns.map(column => {
+            values.push(row[column]);
+            return `$${values.length}`;
+          });
+          return `(${placeholders.join(', ')})`;
+        });
+
+        const result = await db.query(
+          `INSERT INTO ${table} (${columns.join(', ')})
+           VALUES ${tuples.join(', ')}
+           ON CONFLICT (id) DO NOTHING
+           RETURNING *`,
+          values
+        );
+        inserted.push(...result.rows);
+      }
+      return inserted;
+    },
+
+    /**
+     * Apply merged sync push writes with multi-row UPDATE ... FROM (VALUES ...)
+     * Each row only sets the columns in its `values`. Ids must be unique.
+     * Returns the updated rows.
+     */
+    async updateMany(userId: string, merges: RowMerge[], db: Pool | PoolClient = pool): Promise<TRow[]> {
+      const updated: TRow[] = [];
+      // Values travel as JSON and are typed by the table's own row type
+      const assignments = mergeableColumns.map(column =>
+        `${column} = CASE WHEN v.data ? '${column}' THEN r.${column} ELSE t.${column} END`
+      );
+
+      for (const mergeChunk of chunk(merges)) {
+        const values: any[] = [userId];
+        const tuples = mergeChunk.map(merge => {
+          values.push(
+            merge.id, merge.values, merge.fieldTimestamps, merge.fieldClocks, merge.clock, merge.modifiedAt, merge.revive
+          );
+          const i = values.length;
+          return `($${i - 6}::uuid, $${i - 5}::jsonb, $${i - 4}::jsonb, $${i - 3}::jsonb, $${i - 2}::text, ` +
+            `$${i - 1}::bigint, $${i}::boolean)`;
+        });
+
+        const result = await db.query(
+          `UPDATE ${table} AS t
+           SET ${assignments.join(', ')},
+               field_timestamps = v.field_timestamps,
+               field_clocks = v.field_clocks,
+               clock = v.clock,
+               modified_at = GREATEST(t.modified_at, v.modified_at),
+               is_deleted = t.is_deleted AND NOT v.revive,
+               deleted_at_server = CASE WHEN v.revive THEN NULL ELSE t.deleted_at_server END
+           FROM (VALUES ${tuples.join(', ')}) AS v(id, data, field_timestamps, field_clocks, clock, modified_at, revive)
+           CROSS JOIN LATERAL jsonb_populate_record(NULL::${table}, v.data) AS r
+           WHERE t.id = v.id AND t.${ownerColumn} = $1
+           RETURNING t.*`,
+          values
+        );
+        updated.push(...result.rows);
+      }
+      return updated;
+    },
+
+    /**
+     * Update a record's mergeable columns (those present in the input)
+     */
+    async update(id: string, userId: string, input: TUpdate, db: Pool | PoolClient = pool): Promise<TRow | null> {
+      const values: Record<string, any> = input;
+      const modifiedAt = values.modified_at || Date.now();
+      const clock = clockService.now();
+
+      // Build dynamic update query
+      const updates: string[] = ['modified_at = $1', 'clock = $2'];
+      const params: any[] = [modifiedAt, clock];
+      let paramIndex = 3;
+
+      // Record the change time and clock of each column written (for field-level merge)
+      const fieldTimestamps: Record<string, number> = {};
+      const fieldClocks: Record<string, Hlc> = {};
+      for (const column of mergeableColumns) {
+        if (values[column] !== undefined) {
+          updates.push(`${column} = $${paramIndex++}`);
+          params.push(values[column]);
+          fieldTimestamps[column] = modifiedAt;
+          fieldClocks[column] = clock;
+        }
+      }
+      updates.push(`field_timestamps = field_timestamps || $${paramIndex++}::jsonb`);
+      params.push(fieldTimestamps);
+      updates.push(`field_clocks = field_clocks || $${paramIndex++}::jsonb`);
+      params.push(fieldClocks);
+
+      params.push(id, userId);
+
+      const result = await db.query(
+        `UPDATE ${table}
+         SET ${updates.join(', ')}
+         WHERE id = $${paramIndex++} AND ${ownerColumn} = $${paramIndex}
+         RETURNING *`,
+        params
+      );
+      return result.rows[0] || null;
+    },
+
+    /**
+     * Soft delete a record, applying the onDelete rules of records referencing it
+     * (see referenceService). Throws when a restrict rule blocks the delete.
+     * Runs in its own transaction unless given the caller's client.
+     */
+    async delete(id: string, userId: string, db: Pool | PoolClient = pool): Promise<boolean> {
+      if (db !== pool) {
+        return softDelete(id, userId, db);
+      }
+
+      const client = await getClient();
+      try {
+        await client.query('BEGIN');
+        const deleted = await softDelete(id, userId, client);
+        await client.query('COMMIT');
+        return deleted;
+      } catch (error) {
+        await client.query('ROLLBACK');
+        throw error;
+      } finally {
+        client.release();
+      }
+    },
+
+    /**
+     * Soft delete many records, each at its own time and clock
+     * Ids must be unique. Records referencing the deleted ones get their
+     * onDelete rules applied; callers check restrict rules first
+     * (referenceService.findBlocked). Returns the ids deleted.
+     */
+    async deleteMany(userId: string, deletions: RowDeletion[], db: Pool | PoolClient = pool): Promise<string[]> {
+      const deleted: string[] = [];
+      for (const deletionChunk of chunk(deletions)) {
+        const values: any[] = [userId, Date.now()];
+        const tuples = deletionChunk.map(deletion => {
+          values.push(deletion.id, deletion.modifiedAt, deletion.clock);
+          const i = values.length;
+          return `($${i - 2}::uuid, $${i - 1}::bigint, $${i}::text)`;
+        });
+
+        const result = await db.query(
+          `UPDATE ${table} AS t
+           SET is_deleted = TRUE, modified_at = v.modified_at, deleted_at_server = $2, clock = v.clock
+           FROM (VALUES ${tuples.join(', ')}) AS v(id, modified_at, clock)
+           WHERE t.id = v.id AND t.${ownerColumn} = $1
+           RETURNING t.id`,
+          values
+        );
+        deleted.push(...result.rows.map(row => row.id));
+      }
+      await referenceService.applyDeleteRules(collection, userId, deleted, db);
+      return deleted;
+    },
+
+    /**
+     * Get records changed since a sync cursor (change sequence)
+     * Pass a client to read inside the caller's transaction snapshot
+     */
+    async getChangesSince(userId: string, since: number | null, db: Pool | PoolClient = pool): Promise<RowChanges<TRow>> {
+      if (since === null) {
+        // First sync - return all non-deleted records as created
+        const result = await db.query(
+          `SELECT * FROM ${table}
+           WHERE ${ownerColumn} = $1 AND is_deleted = FALSE
+           ORDER BY created_timestamp`,
+          [userId]
+        );
+        return {
+          created: result.rows,
+          updated: [],
+          deleted: [],
+        };
+      }
+
+      // Get all changes since the cursor
+      const result = await db.query(
+        `SELECT * FROM ${table}
+         WHERE ${ownerColumn} = $1 AND change_seq > $2
+         ORDER BY change_seq`,
+        [userId, since]
+      );
+
+      const changes: RowChanges<TRow> = { created: [], updated: [], deleted: [] };
+
+      for (const row of result.rows) {
+        if (row.is_deleted) {
+          changes.deleted.push(row.id);
+        } else if (Number(row.created_seq) > since) {
+          changes.created.push(row);
+        } else {
+          changes.updated.push(row);
+        }
+      }
+
+      return changes;
+    },
+
+    /**
+     * Get one page of records changed in (since, until] (for paginated sync)
+     * Rows come in change_seq order; afterSeq continues after the previous page.
+     * On first sync (since === null) deleted records are skipped.
+     */
+    async getChangesPage(userId: string, range: ChangesPageRange, db: Pool | PoolClient = pool): Promise<TRow[]> {
+      const result = await db.query(
+        `SELECT * FROM ${table}
+         WHERE ${ownerColumn} = $1 AND change_seq > $2 AND change_seq <= $3
+           AND ($4::boolean OR is_deleted = FALSE)
+         ORDER BY change_seq
+         LIMIT $5`,
+        [userId, range.afterSeq, range.until, range.since !== null, range.limit]
+      );
+      return result.rows;
+    },
+  };
+};
+
+export type CollectionService = ReturnType<typeof createCollectionService>;
+
+const services = new Map<SyncCollection, CollectionService>();
+
+/**
+ * Shared service instance for a registered collection
+ */
+export const getCollectionService = (name: SyncCollection): CollectionService => {
+  let service = services.get(name);
+  if (!service) {
+    service = createCollectionService(getSyncCollection(name));
+    services.set(name, service);
+  }
+  return service;
+};
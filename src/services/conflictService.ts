@@ -0,0 +1,151 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Pool, PoolClient } from 'pg';
+import pool, { query } from '../config/database';
+
+/**
+ * Persisted sync conflict (sync_conflicts row)
+ */
+export interface SyncConflict {
+  id: string;
+  user_id: string;
+  collection: string;
+  record_id: string;
+  winner: 'local' | 'remote' | 'merged';
+  reason: string;
+  local_updated_at: number | null;
+  remote_updated_at: number | null;
+  fields: any[] | null;
+  local_payload: any | null;  // Record as pushed by the client
+  remote_payload: any | null;  // Server record before the push (LOCAL field names)
+  losing_payload: Record<string, any>;  // Discarded values (LOCAL field names, optional _deleted)
+  session_id: string | null;
+  request_id: string | null;
+  created_timestamp: number;
+  reapplied_at: number | null;
+}
+
+export type RecordConflictInput = Omit<SyncConflict, 'id' | 'user_id' | 'created_timestamp' | 'reapplied_at'>;
+
+export interface ConflictFilters {
+  collection?: string;
+  recordId?: string;
+  since?: number;  // created_timestamp >= since
+  until?: number;  // created_timestamp <= until
+  limit?: number;
+}
+
+const DEFAULT_LIMIT = 100;
+const MAX_LIMIT = 1000;
+
+// Rows per multi-row INSERT (15 parameters each, under PostgreSQL's 65535 limit)
+const INSERT_CHUNK_SIZE = 1000;
+
+export const conflictService = {
+  /**
+   * Persist a conflict (pass the push transaction's client so it commits with the changes)
+   */
+  async record(userId: string, input: RecordConflictInput, db: Pool | PoolClient = pool): Promise<void> {
+    await this.recordMany(userId, [input], db);
+  },
+
+  /**
+   * Persist several conflicts with one multi-row INSERT
+   */
+  async recordMany(userId: string, inputs: RecordConflictInput[], db: Pool | PoolClient = pool): Promise<void> {
+    const now = Date.now();
+
+    for (let start = 0; start < inputs.length; start += INSERT_CHUNK_SIZE) {
+      const values: any[] = [];
+      const tuples = inputs.slice(start, start + INSERT_CHUNK_SIZE).map(input => {
+        values.push(
+          uuidv4(),
+          userId,
+          input.collection,
+          input.record_id,
+          input.winner,
+          input.reason,
+          input.local_updated_at,
+          input.remote_updated_at,
+          input.fields ? JSON.stringify(input.fields) : null,
+          input.local_payload,
+          input.remote_payload,
+          input.losing_payload,
+          input.session_id,
+          input.request_id,
+          now,
+        );
+        const first = values.length - 14;
+        return `(${Array.from({ length: 15 }, (_, i) => `$${first + i}`).join(', ')})`;
+      });
+
+      await db.query(
+        `INSERT INTO sync_conflicts (
+           id, user_id, collection, record_id, winner, reason, local_updated_at, remote_updated_at,
+           fields, local_payload, remote_payload, losing_payload, session_id, request_id, created_timestamp
+         )
+         VALUES ${tuples.join(', ')}`,
+        values
+      );
+    }
+  },
+
+  /**
+   * Query a user's conflicts, newest first
+   */
+  async getAll(userId: string, filters: ConflictFilters = {}): Promise<SyncConflict[]> {
+    const conditions = ['user_id = $1'];
+    const values: any[] = [userId];
+    let paramIndex = 2;
+
+    if (filters.collection) {
+      conditions.push(`collection = $${paramIndex++}`);
+      values.push(filters.collection);
+    }
+    if (filters.recordId) {
+      conditions.push(`record_id = $${paramIndex++}`);
+      values.push(filters.recordId);
+    }
+    if (filters.since !== undefined) {
+      conditions.push(`created_timestamp >= $${paramIndex++}`);
+      values.push(filters.since);
+    }
+    if (filters.until !== undefined) {
+      conditions.push(`created_timestamp <= $${paramIndex++}`);
+      values.push(filters.until);
+    }
+
+    values.push(Math.min(Math.max(filters.limit ?? DEFAULT_LIMIT, 1), MAX_LIMIT));
+
+    const result = await query(
+      `SELECT * FROM sync_conflicts
+       WHERE ${conditions.join(' AND ')}
+       ORDER BY created_timestamp DESC
+       LIMIT $${paramIndex}`,
+      values
+    );
+    return result.rows;
+  },
+
+  /**
+   * Get a conflict by ID
+   */
+  async getById(id: string, userId: string, db: Pool | PoolClient = pool): Promise<SyncConflict | null> {
+    const result = await db.query(
+      'SELECT * FROM sync_conflicts WHERE id = $1 AND user_id = $2',
+      [id, userId]
+    );
+    return result.rows[0] || null;
+  },
+
+  /**
+   * Mark a conflict's losing version as re-applied
+   * Returns false if it already was (the row lock makes concurrent calls wait).
+   */
+  async markReapplied(id: string, db: Pool | PoolClient = pool): Promise<boolean> {
+    const result = await db.query(
+      'UPDATE sync_conflicts SET reapplied_at = $1 WHERE id = $2 AND reapplied_at IS NULL',
+      [Date.now(), id]
+    );
+    return (result.rowCount ?? 0) > 0;
+  },
+};
@@ -0,0 +1,120 @@
+import { getSyncCollection, SyncCollection } from './syncCollections';
+
+/**
+ * Field Mapping Service
+ *
+ * Translates between each collection's LOCAL field names (client, WatermelonDB,
+ * REST responses) and REMOTE column names (PostgreSQL), using the `fields`
+ * declared once per collection in syncCollections. REST routes, sync pull/push
+ * and the account export all derive their transforms and column lists from
+ * here, so adding a column is one change.
+ *
+ * | Collection | Local (Client) | Remote (PostgreSQL) |
+ * |------------|----------------|---------------------|
+ * | both       | title          | name                |
+ * | todos      | description    | details             |
+ * | todos      | is_completed   | done                |
+ * | both       | created_at     | created_timestamp   |
+ * | both       | updated_at     | modified_at         |
+ */
+
+export interface FieldMapping {
+  local: string;
+  remote: string;
+  // User-editable value: writable via REST, merged per field on sync push and
+  // tracked in the row's field_timestamps
+  mergeable?: boolean;
+  // Value stored on insert when the client does not send one
+  default?: any;
+  // Validation of pushed values (see recordValidationService)
+  type?: 'string' | 'boolean' | 'number' | 'uuid' | 'timezone';  // timezone: IANA name (e.g. "Europe/Paris")
+  maxLength?: number;
+  format?: { pattern: RegExp; description: string };  // Strings must match ("<field> must be <description>")
+  references?: string;  // Collection whose record (owned by the same user) this field holds the id of
+  // What a soft delete of the referenced record does to this record (see referenceService)
+  onDelete?: 'set-null' | 'cascade' | 'restrict';
+}
+
+const mappings = (collection: SyncCollection): readonly FieldMapping[] => getSyncCollection(collection).fields;
+
+export const fieldMappingService = {
+  /**
+   * Transform a row from REMOTE column names to LOCAL field names
+   */
+  toLocal(collection: SyncCollection, row: any): Record<string, any> {
+    const local: Record<string, any> = {};
+    for (const field of mappings(collection)) {
+      local[field.local] = row[field.remote];
+    }
+    return local;
+  },
+
+  /**
+   * Transform a record from LOCAL field names to REMOTE column names
+   * Only fields present in the record are mapped; pass `mergeableOnly` to
+   * keep just the user-editable ones (e.g. for REST request bodies).
+   */
+  toRemote(collection: SyncCollection, record: any, options: { mergeableOnly?: boolean } = {}): Record<string, any> {
+    const remote: Record<string, any> = {};
+    for (const field of mappings(collection)) {
+      if (options.mergeableOnly && !field.mergeable) {
+        continue;
+      }
+      if (record[field.local] !== undefined) {
+        remote[field.remote] = record[field.local];
+      }
+    }
+    return remote;
+  },
+
+  /**
+   * Transform a record to REMOTE columns for insert, filling in defaults
+   */
+  toRemoteInsert(collection: SyncCollection, record: any): Record<string, any> {
+    const remote: Record<string, any> = {};
+    for (const field of mappings(collection)) {
+      remote[field.remote] = record[field.local] ?? field.default ?? null;
+    }
+    return remote;
+  },
+
+  /**
+   * Every mapped REMOTE column
+   */
+  columns(collection: SyncCollection): string[] {
+    return mappings(collection).map(field => field.remote);
+  },
+
+  /**
+   * Every LOCAL field name
+   */
+  localFields(collection: SyncCollection): string[] {
+    return mappings(collection).map(field => field.local);
+  },
+
+  /**
+   * Mergeable fields as Local field -> Remote column
+   */
+  mergeFields(collection: SyncCollection): Record<string, string> {
+    const fields: Record<string, string> = {};
+    for (const field of mappings(collection)) {
+      if (field.mergeable) {
+        fields[field.local] = field.remote;
+      }
+    }
+    return fields;
+  },
+
+  /**
+   * Insert defaults by LOCAL field name (for fields that have one)
+   */
+  defaults(collection: SyncCollection): Record<string, any> {
+    const defaults: Record<string, any> = {};
+    for (const field of mappings(collection)) {
+      if ('default' in field) {
+        defaults[field.local] = field.default;
+      }
+    }
+    return defaults;
+  },
+};
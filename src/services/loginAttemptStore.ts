@@ -0,0 +1,172 @@
+import { query } from '../config/database';
+
+/**
+ * Failed login attempt tracking for one throttle key
+ */
+export interface LoginAttemptRecord {
+  failures: number;
+  lastFailureAt: number;
+  blockedUntil: number;  // 0 when not blocked
+}
+
+/**
+ * Account lockout applied by claimAttempt
+ */
+export interface LockoutRule {
+  threshold: number;  // Failures that lock the key
+  durationMs: number;
+}
+
+/**
+ * Storage for failed login attempts
+ * The in-memory store is per process; use the Postgres store when running
+ * more than one server instance so all instances share the counters.
+ */
+export interface LoginAttemptStore {
+  get(key: string): Promise<LoginAttemptRecord | null>;
+  /**
+   * Atomically count a failure. Counting restarts at 1 if the previous
+   * failure is older than windowMs.
+   */
+  recordFailure(key: string, now: number, windowMs: number): Promise<LoginAttemptRecord>;
+  /**
+   * Atomically count an attempt as a failure before its outcome is known,
+   * unless the key is blocked (then null and nothing is counted). The attempt
+   * reaching lockout.threshold blocks the key in the same step, so concurrent
+   * attempts cannot overshoot the lockout.
+   */
+  claimAttempt(key: string, now: number, windowMs: number, lockout: LockoutRule): Promise<LoginAttemptRecord | null>;
+  /**
+   * Block the key until blockedUntil (never shortens an existing block, e.g.
+   * a lockout set by a concurrent claimAttempt)
+   */
+  setBlockedUntil(key: string, blockedUntil: number): Promise<void>;
+  reset(key: string): Promise<void>;
+}
+
+// Sweep expired entries from the memory store once it grows past this size
+const MEMORY_SWEEP_THRESHOLD = 10000;
+
+export const createMemoryLoginAttemptStore = (): LoginAttemptStore => {
+  const records = new Map<string, LoginAttemptRecord>();
+
+  const sweep = (now: number, windowMs: number) => {
+    for (const [key, record] of records) {
+      if (record.lastFailureAt < now - windowMs && record.blockedUntil <= now) {
+        records.delete(key);
+      }
+    }
+  };
+
+  const countFailure = (key: string, now: number, windowMs: number): LoginAttemptRecord => {
+    if (records.size > MEMORY_SWEEP_THRESHOLD) {
+      sweep(now, windowMs);
+    }
+
+    const existing = records.get(key);
+    const record: LoginAttemptRecord = existing && existing.lastFailureAt >= now - windowMs
+      ? { ...existing, failures: existing.failures + 1, lastFailureAt: now }
+      : { failures: 1, lastFailureAt: now, blockedUntil: existing?.blockedUntil || 0 };
+
+    records.set(key, record);
+    return record;
+  };
+
+  return {
+    async get(key) {
+      return records.get(key) || null;
+    },
+
+    async recordFailure(key, now, windowMs) {
+      return countFailure(key, now, windowMs);
+    },
+
+    async claimAttempt(key, now, windowMs, lockout) {
+      const existing = records.get(key);
+      if (existing && existing.blockedUntil > now) {
+        return null;
+      }
+
+      const record = countFailure(key, now, windowMs);
+      if (record.failures >= lockout.threshold) {
+        record.blockedUntil = now + lockout.durationMs;
+      }
+      return record;
+    },
+
+    async setBlockedUntil(key, blockedUntil) {
+      const existing = records.get(key);
+      if (existing) {
+        existing.blockedUntil = Math.max(existing.blockedUntil, blockedUntil);
+      }
+    },
+
+    async reset(key) {
+      records.delete(key);
+    },
+  };
+};
+
+const fromRow = (row: any): LoginAttemptRecord => ({
+  failures: row.failures,
+  lastFailureAt: Number(row.last_failure_at),
+  blockedUntil: Number(row.blocked_until),
+});
+
+export const createPostgresLoginAttemptStore = (): LoginAttemptStore => ({
+  async get(key) {
+    const result = await query('SELECT * FROM login_attempts WHERE key = $1', [key]);
+    return result.rows[0] ? fromRow(result.rows[0]) : null;
+  },
+
+  async recordFailure(key, now, windowMs) {
+    const result = await query(
+      `INSERT INTO login_attempts (key, failures, last_failure_at, blocked_until)
+       VALUES ($1, 1, $2, 0)
+       ON CONFLICT (key) DO UPDATE SET
+         failures = CASE
+           WHEN login_attempts.last_failure_at < $2::bigint - $3::bigint THEN 1
+           ELSE login_attempts.failures + 1
+         END,
+         last_failure_at = $2
+       RETURNING *`,
+      [key, now, windowMs]
+    );
+    return fromRow(result.rows[0]);
+  },
+
+  async claimAttempt(key, now, windowMs, lockout) {
+    const result = await query(
+      `INSERT INTO login_attempts (key, failures, last_failure_at, blocked_until)
+       VALUES ($1, 1, $2, CASE WHEN 1 >= $4 THEN $2::bigint + $5::bigint ELSE 0 END)
+       ON CONFLICT (key) DO UPDATE SET
+         failures = CASE
+           WHEN login_attempts.last_failure_at < $2::bigint - $3::bigint THEN 1
+           ELSE login_attempts.failures + 1
+         END,
+         last_failure_at = $2,
+         blocked_until = CASE
+           WHEN (CASE
+             WHEN login_attempts.last_failure_at < $2::bigint - $3::bigint THEN 1
+             ELSE login_attempts.failures + 1
+           END) >= $4 THEN $2::bigint + $5::bigint
+           ELSE login_attempts.blocked_until
+         END
+       WHERE login_attempts.blocked_until <= $2
+       RETURNING *`,
+      [key, now, windowMs, lockout.threshold, lockout.durationMs]
+    );
+    return result.rows[0] ? fromRow(result.rows[0]) : null;
+  },
+
+  async setBlockedUntil(key, blockedUntil) {
+    await query(
+      'UPDATE login_attempts SET blocked_until = GREATEST(blocked_until, $1) WHERE key = $2',
+      [blockedUntil, key]
+    );
+  },
+
+  async reset(key) {
+    await query('DELETE FROM login_attempts WHERE key = $1', [key]);
+  },
+});
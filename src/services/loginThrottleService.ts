@@ -0,0 +1,135 @@
+import { v4 as uuidv4 } from 'uuid';
+import { query } from '../config/database';
+import { authConfig } from '../config/auth';
+import {
+  LoginAttemptStore,
+  LoginAttemptRecord,
+  createMemoryLoginAttemptStore,
+  createPostgresLoginAttemptStore,
+} from './loginAttemptStore';
+
+/**
+ * Login Throttle Service
+ *
+ * Tracks failed logins per email and per client IP:
+ * - after a few free failures, each further failure blocks that key for an
+ *   exponentially growing delay (capped)
+ * - after lockoutThreshold failures for one email the account is locked for
+ *   lockoutDurationMs and the lockout is written to login_lockouts
+ * A successful login clears the email's counter (the IP counter only decays).
+ * Email attempts are counted when they start (check), atomically with the
+ * lockout, so concurrent bad-password requests cannot all pass the check
+ * before a failure is recorded.
+ */
+
+export interface ThrottleResult {
+  allowed: boolean;
+  retryAfterMs: number;
+  reason?: string;
+  failures?: number;  // Allowed attempts: the email's failure count including this attempt
+}
+
+const config = authConfig.loginThrottle;
+
+let store: LoginAttemptStore = config.store === 'postgres'
+  ? createPostgresLoginAttemptStore()
+  : createMemoryLoginAttemptStore();
+
+const emailKey = (email: string) => `email:${email.trim().toLowerCase()}`;
+const ipKey = (ip: string) => `ip:${ip}`;
+
+const backoffMs = (failures: number, freeAttempts: number): number => {
+  if (failures <= freeAttempts) {
+    return 0;
+  }
+  return Math.min(config.baseDelayMs * 2 ** (failures - freeAttempts - 1), config.maxDelayMs);
+};
+
+const blockedFor = (record: LoginAttemptRecord | null, now: number): number =>
+  record && record.blockedUntil > now ? record.blockedUntil - now : 0;
+
+export const loginThrottleService = {
+  /**
+   * Replace the attempt store (e.g. for tests or a custom shared backend)
+   */
+  setStore(next: LoginAttemptStore): void {
+    store = next;
+  },
+
+  /**
+   * Check whether a login attempt may proceed
+   * An allowed attempt is counted as a failure of the email, with its backoff
+   * and lockout applied, until recordSuccess clears it.
+   */
+  async check(email: string, ip?: string): Promise<ThrottleResult> {
+    const now = Date.now();
+    const key = emailKey(email);
+
+    const ipWait = ip ? blockedFor(await store.get(ipKey(ip)), now) : 0;
+    const claimed = ipWait === 0
+      ? await store.claimAttempt(key, now, config.windowMs, {
+        threshold: config.lockoutThreshold,
+        durationMs: config.lockoutDurationMs,
+      })
+      : null;
+
+    if (claimed) {
+      const backoff = backoffMs(claimed.failures, config.freeAttemptsPerEmail);
+      if (backoff > 0 && now + backoff > claimed.blockedUntil) {
+        await store.setBlockedUntil(key, now + backoff);
+      }
+      return { allowed: true, retryAfterMs: 0, failures: claimed.failures };
+    }
+
+    const emailRecord = await store.get(key);
+    return {
+      allowed: false,
+      retryAfterMs: Math.max(blockedFor(emailRecord, now), ipWait),
+      reason: emailRecord && emailRecord.failures >= config.lockoutThreshold
+        ? 'Account temporarily locked due to too many failed login attempts'
+        : 'Too many failed login attempts, try again later',
+    };
+  },
+
+  /**
+   * Record a failed login
+   * The email's failure, backoff and lockout were applied by check; this
+   * audits the lockout (pass the failures check returned) and counts the
+   * failure against the IP.
+   */
+  async recordFailure(email: string, ip?: string, failures?: number): Promise<void> {
+    const now = Date.now();
+
+    if (failures !== undefined && failures >= config.lockoutThreshold) {
+      const emailRecord = await store.get(emailKey(email));
+      await this.auditLockout(email, ip, failures, emailRecord?.blockedUntil ?? now + config.lockoutDurationMs);
+    }
+
+    if (ip) {
+      const ipRecord = await store.recordFailure(ipKey(ip), now, config.windowMs);
+      const ipBlock = backoffMs(ipRecord.failures, config.freeAttemptsPerIp);
+      if (ipBlock > 0) {
+        await store.setBlockedUntil(ipKey(ip), now + ipBlock);
+      }
+    }
+  },
+
+  /**
+   * Clear the failure counter for an email after a successful login
+   */
+  async recordSuccess(email: string): Promise<void> {
+    await store.reset(emailKey(email));
+  },
+
+  /**
+   * Write an account lockout to the audit trail
+   */
+  async auditLockout(email: string, ip: string | undefined, failures: number, lockedUntil: number): Promise<void> {
+    console.warn(`[Auth] Account locked after ${failures} failed logins: ${email}`);
+    await query(
+      `INSERT INTO login_lockouts (id, email, ip, failures, locked_until, created_timestamp)
+       VALUES ($1, $2, $3, $4, $5, $6)`,
+      [uuidv4(), email.trim().toLowerCase(), ip || null, failures, lockedUntil, Date.now()]
+    );
+  },
+};
@@ -0,0 +1,49 @@
+import { v4 as uuidv4 } from 'uuid';
+import { query } from '../config/database';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  body: string;
+}
+
+/**
+ * Mail transport interface
+ * Implement this to deliver mail through SMTP or a provider API
+ */
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+/**
+ * Default transport: writes messages to the mail_outbox table
+ * Works offline and lets tests read the "sent" mail back
+ */
+export const outboxTransport: MailTransport = {
+  async send(message: MailMessage): Promise<void> {
+    await query(
+      `INSERT INTO mail_outbox (id, to_address, subject, body, created_timestamp)
+       VALUES ($1, $2, $3, $4, $5)`,
+      [uuidv4(), message.to, message.subject, message.body, Date.now()]
+    );
+    console.log(`[Mail] Queued to outbox: "${message.subject}" -> ${message.to}`);
+  },
+};
+
+let transport: MailTransport = outboxTransport;
+
+export const mailService = {
+  /**
+   * Replace the mail transport (e.g. with an SMTP implementation at startup)
+   */
+  setTransport(next: MailTransport): void {
+    transport = next;
+  },
+
+  /**
+   * Send a message through the configured transport
+   */
+  async send(message: MailMessage): Promise<void> {
+    await transport.send(message);
+  },
+};
@@ -0,0 +1,115 @@
+import { v4 as uuidv4 } from 'uuid';
+import { query } from '../config/database';
+
+/**
+ * A todo reminder that has come due (see reminderService)
+ */
+export interface Reminder {
+  userId: string;
+  todoId: string;
+  title: string;  // The todo's title
+  dueAt: number;  // ms since epoch
+  dueTimezone: string | null;  // IANA zone the due time was set in
+  remindAt: number;  // dueAt minus the reminder offset
+  offsetMinutes: number;
+}
+
+/**
+ * Stored notification (notifications row)
+ */
+export interface Notification {
+  id: string;
+  user_id: string;
+  todo_id: string | null;
+  title: string;
+  body: string | null;
+  due_at: number | null;
+  remind_at: number | null;
+  created_timestamp: number;
+}
+
+export interface NotificationFilters {
+  since?: number;  // created_timestamp > since
+  limit?: number;
+}
+
+/**
+ * Notifier interface
+ * Implement this to deliver reminders by push notification, email, ...
+ */
+export interface Notifier {
+  notify(reminder: Reminder): Promise<void>;
+}
+
+const DEFAULT_LIMIT = 100;
+const MAX_LIMIT = 1000;
+
+/**
+ * Due time in the zone it was set in (UTC when unknown)
+ */
+const formatDue = (reminder: Reminder): string => {
+  const options: Intl.DateTimeFormatOptions = {
+    year: 'numeric', month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit', timeZoneName: 'short',
+  };
+  try {
+    return new Intl.DateTimeFormat('en-US', { ...options, timeZone: reminder.dueTimezone || 'UTC' }).format(reminder.dueAt);
+  } catch {
+    return new Intl.DateTimeFormat('en-US', { ...options, timeZone: 'UTC' }).format(reminder.dueAt);
+  }
+};
+
+/**
+ * Default notifier: writes reminders to the notifications table
+ * Clients read them back with GET /api/notifications
+ */
+export const notificationTableNotifier: Notifier = {
+  async notify(reminder: Reminder): Promise<void> {
+    await query(
+      `INSERT INTO notifications (id, user_id, todo_id, title, body, due_at, remind_at, created_timestamp)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
+      [
+        uuidv4(),
+        reminder.userId,
+        reminder.todoId,
+        reminder.title,
+        `Due ${formatDue(reminder)}`,
+        reminder.dueAt,
+        reminder.remindAt,
+        Date.now(),
+      ]
+    );
+  },
+};
+
+let notifier: Notifier = notificationTableNotifier;
+
+export const notificationService = {
+  /**
+   * Replace the notifier (e.g. with a push notification provider at startup)
+   */
+  setNotifier(next: Notifier): void {
+    notifier = next;
+  },
+
+  /**
+   * Deliver a reminder through the configured notifier
+   */
+  async notify(reminder: Reminder): Promise<void> {
+    await notifier.notify(reminder);
+  },
+
+  /**
+   * A user's stored notifications, newest first
+   */
+  async getAll(userId: string, filters: NotificationFilters = {}): Promise<Notification[]> {
+    const limit = Math.min(Math.max(filters.limit ?? DEFAULT_LIMIT, 1), MAX_LIMIT);
+    const result = await query(
+      `SELECT * FROM notifications
+       WHERE user_id = $1 AND ($2::bigint IS NULL OR created_timestamp > $2)
+       ORDER BY created_timestamp DESC
+       LIMIT $3`,
+      [userId, filters.since ?? null, limit]
+    );
+    return result.rows;
+  },
+};
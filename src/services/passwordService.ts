@@ -0,0 +1,104 @@
+import crypto from 'crypto';
+
+/**
+ * Password Service
+ *
+ * Hashes passwords with Node's built-in scrypt. Stored format:
+ *   scrypt$<N>$<r>$<p>$<salt base64>$<hash base64>
+ *
+ * The algorithm and its parameters travel with every hash, so parameters can be
+ * raised later and old hashes are recognised (and upgraded) on the next login.
+ * Values without the prefix are legacy plaintext rows from before hashing existed.
+ */
+
+interface ScryptParams {
+  N: number;  // CPU/memory cost
+  r: number;  // Block size
+  p: number;  // Parallelization
+}
+
+// Current parameters for new hashes (~32 MiB memory per hash)
+const CURRENT_PARAMS: ScryptParams = { N: 32768, r: 8, p: 1 };
+const KEY_LENGTH = 64;
+const SALT_LENGTH = 16;
+const PREFIX = 'scrypt';
+
+const deriveKey = (password: string, salt: Buffer, params: ScryptParams): Promise<Buffer> =>
+  new Promise((resolve, reject) => {
+    crypto.scrypt(
+      password,
+      salt,
+      KEY_LENGTH,
+      { N: params.N, r: params.r, p: params.p, maxmem: 256 * params.N * params.r },
+      (err, key) => (err ? reject(err) : resolve(key))
+    );
+  });
+
+/**
+ * Parse a stored hash. Returns null for values that are not scrypt hashes (legacy plaintext)
+ */
+const parseHash = (stored: string): { params: ScryptParams; salt: Buffer; hash: Buffer } | null => {
+  const parts = stored.split('$');
+  if (parts.length !== 6 || parts[0] !== PREFIX) {
+    return null;
+  }
+
+  const [, N, r, p, salt, hash] = parts;
+  return {
+    params: { N: parseInt(N, 10), r: parseInt(r, 10), p: parseInt(p, 10) },
+    salt: Buffer.from(salt, 'base64'),
+    hash: Buffer.from(hash, 'base64'),
+  };
+};
+
+const constantTimeEqual = (a: Buffer, b: Buffer): boolean =>
+  a.length === b.length && crypto.timingSafeEqual(a, b);
+
+export const passwordService = {
+  /**
+   * Hash a password with the current parameters
+   */
+  async hash(password: string): Promise<string> {
+    const salt = crypto.randomBytes(SALT_LENGTH);
+    const key = await deriveKey(password, salt, CURRENT_PARAMS);
+    const { N, r, p } = CURRENT_PARAMS;
+    return [PREFIX, N, r, p, salt.toString('base64'), key.toString('base64')].join('$');
+  },
+
+  /**
+   * Verify a password against a stored value in constant time
+   * Legacy plaintext values are compared directly (still constant time)
+   */
+  async verify(password: string, stored: string): Promise<boolean> {
+    const parsed = parseHash(stored);
+
+    if (!parsed) {
+      // Hash both sides so the comparison does not leak the stored length
+      const a = crypto.createHash('sha256').update(password).digest();
+      const b = crypto.createHash('sha256').update(stored).digest();
+      return constantTimeEqual(a, b);
+    }
+
+    const key = await deriveKey(password, parsed.salt, parsed.params);
+    return constantTimeEqual(key, parsed.hash);
+  },
+
+  /**
+   * Whether a stored value should be replaced with a fresh hash
+   * True for legacy plaintext and for hashes made with outdated parameters
+   */
+  needsRehash(stored: string): boolean {
+    const parsed = parseHash(stored);
+    if (!parsed) {
+      return true;
+    }
+
+    const { N, r, p } = parsed.params;
+    return (
+      N !== CURRENT_PARAMS.N ||
+      r !== CURRENT_PARAMS.r ||
+      p !== CURRENT_PARAMS.p ||
+      parsed.hash.length !== KEY_LENGTH
+    );
+  },
+};
@@ -0,0 +1,241 @@
+import { Pool, PoolClient } from 'pg';
+import pool from '../config/database';
+import { clockService } from './clockService';
+import type { FieldMapping } from './fieldMappingService';
+import { getSyncCollection, isSyncCollection, SyncCollection } from './syncCollections';
+
+/**
+ * Record Validation Service
+ *
+ * Checks pushed records and REST writes (LOCAL field names) against their
+ * collection's field declarations in syncCollections: required fields, types,
+ * lengths, formats, and that referenced records belong to the same user and
+ * are not deleted.
+ */
+
+export interface FieldError {
+  field: string | null;  // LOCAL field name (null for the record as a whole)
+  message: string;
+}
+
+/**
+ * A pushed record (or deleted id) that was not applied
+ */
+export interface RecordRejection {
+  collection: SyncCollection;
+  recordId: string | null;
+  reasons: FieldError[];
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Sync protocol fields every pushed record needs, whatever its collection
+const PROTOCOL_REQUIRED = ['id', 'updated_at'];
+
+export const isUuid = (value: unknown): value is string =>
+  typeof value === 'string' && UUID_PATTERN.test(value);
+
+export const isTimezone = (value: unknown): value is string => {
+  if (typeof value !== 'string') {
+    return false;
+  }
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const checkType = (type: string, value: unknown): string | null => {
+  switch (type) {
+    case 'string':
+      return typeof value === 'string' ? null : 'must be a string';
+    case 'boolean':
+      return typeof value === 'boolean' ? null : 'must be a boolean';
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value) ? null : 'must be a number';
+    case 'uuid':
+      return isUuid(value) ? null : 'must be a UUID';
+    case 'timezone':
+      return isTimezone(value) ? null : 'must be an IANA time zone';
+    default:
+      return null;
+  }
+};
+
+export interface RecordToValidate {
+  record: unknown;
+  mode: 'create' | 'update';
+}
+
+interface CheckedRecord {
+  values: Record<string, any>;
+  fields: readonly FieldMapping[];
+  errors: FieldError[];
+}
+
+/**
+ * Field checks that need no database access
+ * REST writes only set mergeable fields and carry no sync protocol fields.
+ * Returns the fields that were checked along with any errors.
+ */
+const checkRecord = (
+  collection: SyncCollection,
+  record: unknown,
+  mode: 'create' | 'update',
+  source: 'push' | 'rest' = 'push'
+): CheckedRecord => {
+  if (!record || typeof record !== 'object' || Array.isArray(record)) {
+    return { values: {}, fields: [], errors: [{ field: null, message: 'Record must be an object' }] };
+  }
+
+  const values = record as Record<string, any>;
+  const definition = getSyncCollection(collection);
+  const errors: FieldError[] = [];
+  const protocolRequired = source === 'push' ? PROTOCOL_REQUIRED : [];
+
+  // Updates only apply the fields in WatermelonDB's `_changed` list (when sent)
+  const changed = source === 'push' && mode === 'update' && typeof values._changed === 'string' && values._changed.length > 0
+    ? values._changed.split(',').map((field: string) => field.trim())
+    : null;
+  const fields = definition.fields.filter(field =>
+    source === 'rest'
+      ? field.mergeable
+      : !changed || changed.includes(field.local) || PROTOCOL_REQUIRED.includes(field.local)
+  );
+
+  for (const field of fields) {
+    const value = values[field.local];
+    const protocolField = protocolRequired.includes(field.local);
+    const required = protocolField || definition.required.includes(field.local);
+
+    if (value === undefined) {
+      if (protocolField || (required && mode === 'create')) {
+        errors.push({ field: field.local, message: `${field.local} is required` });
+      }
+      continue;
+    }
+
+    if (value === null) {
+      // Null takes the default on create; on update it is written as-is
+      const nullable = mode === 'create' || !field.mergeable || field.default === null;
+      if (required || !nullable) {
+        errors.push({ field: field.local, message: `${field.local} must not be null` });
+      }
+      continue;
+    }
+
+    const typeError = field.type ? checkType(field.type, value) : null;
+    if (typeError) {
+      errors.push({ field: field.local, message: `${field.local} ${typeError}` });
+      continue;
+    }
+
+    if (required && value === '') {
+      errors.push({ field: field.local, message: `${field.local} must not be empty` });
+    } else if (field.maxLength !== undefined && typeof value === 'string' && value.length > field.maxLength) {
+      errors.push({ field: field.local, message: `${field.local} must be at most ${field.maxLength} characters` });
+    } else if (field.format && typeof value === 'string' && !field.format.pattern.test(value)) {
+      errors.push({ field: field.local, message: `${field.local} must be ${field.format.description}` });
+    }
+  }
+
+  if (source === 'push' && values._clock !== undefined && !clockService.isValid(values._clock)) {
+    errors.push({ field: '_clock', message: '_clock must be a hybrid logical clock timestamp' });
+  }
+
+  return { values, fields, errors };
+};
+
+/**
+ * Referenced records must exist, belong to the user and not be deleted
+ * (checked last, needs valid ids). Adds errors to the checked records; one
+ * query per referenced collection.
+ */
+const checkReferences = async (
+  collection: SyncCollection,
+  checked: CheckedRecord[],
+  userId: string,
+  db: Pool | PoolClient
+): Promise<void> => {
+  const referenceFields = getSyncCollection(collection).fields.filter(field =>
+    field.references && isSyncCollection(field.references)
+  );
+  for (const field of referenceFields) {
+    const pending = checked.filter(({ values, fields, errors }) =>
+      fields.includes(field) && isUuid(values[field.local]) && !errors.some(error => error.field === field.local)
+    );
+    if (pending.length === 0) {
+      continue;
+    }
+
+    const target = getSyncCollection(field.references as SyncCollection);
+    const ids = [...new Set(pending.map(({ values }) => values[field.local] as string))];
+    const result = await db.query(
+      `SELECT id FROM ${target.table}
+       WHERE id = ANY($1::uuid[]) AND ${target.ownerColumn} = $2 AND is_deleted = FALSE`,
+      [ids, userId]
+    );
+    const owned = new Set(result.rows.map(row => row.id));
+
+    for (const { values, errors } of pending) {
+      if (!owned.has(values[field.local].toLowerCase())) {
+        errors.push({ field: field.local, message: `${field.local} does not reference one of your ${target.name}` });
+      }
+    }
+  }
+};
+
+export const recordValidationService = {
+  /**
+   * Validate a pushed record
+   * Created records need every required field; updated records are only
+   * checked for the fields they contain (and, with `_changed`, only those the
+   * client changed). Returns an empty list when valid.
+   */
+  async validate(
+    collection: SyncCollection,
+    record: unknown,
+    mode: 'create' | 'update',
+    userId: string,
+    db: Pool | PoolClient = pool
+  ): Promise<FieldError[]> {
+    const [errors] = await this.validateMany(collection, [{ record, mode }], userId, db);
+    return errors;
+  },
+
+  /**
+   * Validate many pushed records of one collection
+   * Reference checks take one query per referenced collection, whatever the
+   * number of records. Returns each record's errors, in input order.
+   */
+  async validateMany(
+    collection: SyncCollection,
+    records: RecordToValidate[],
+    userId: string,
+    db: Pool | PoolClient = pool
+  ): Promise<FieldError[][]> {
+    const checked = records.map(({ record, mode }) => checkRecord(collection, record, mode));
+    await checkReferences(collection, checked, userId, db);
+    return checked.map(({ errors }) => errors);
+  },
+
+  /**
+   * Validate a REST write (LOCAL field names)
+   * Only the fields REST writes (mergeable ones) are checked, and only those
+   * present; creates also need every required field. Returns an empty list
+   * when valid.
+   */
+  async validateInput(
+    collection: SyncCollection,
+    record: unknown,
+    mode: 'create' | 'update',
+    userId: string,
+    db: Pool | PoolClient = pool
+  ): Promise<FieldError[]> {
+    const checked = checkRecord(collection, record, mode, 'rest');
+    await checkReferences(collection, [checked], userId, db);
+    return checked.errors;
+  },
+};
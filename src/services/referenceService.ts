@@ -0,0 +1,133 @@
+import { Pool, PoolClient } from 'pg';
+import pool from '../config/database';
+import { clockService } from './clockService';
+import type { FieldMapping } from './fieldMappingService';
+import { getSyncCollection, SYNC_COLLECTION_NAMES, SyncCollection } from './syncCollections';
+
+/**
+ * Reference Service
+ *
+ * Applies the `onDelete` rule of reference fields (see syncCollections) when a
+ * referenced record is soft deleted, by REST or by sync push:
+ * - set-null: the field is cleared (e.g. todos become uncategorized)
+ * - cascade: the referencing records are soft deleted too
+ * - restrict: the delete is refused while live records reference it
+ * The database's ON DELETE actions only run on hard deletes (tombstone purge),
+ * hence this. Affected records are written with a new clock, so they get a new
+ * change_seq and other devices pull them.
+ */
+
+interface Reference {
+  collection: SyncCollection;
+  field: FieldMapping;
+}
+
+/**
+ * Fields of other collections that reference a collection
+ */
+const referencesTo = (collection: SyncCollection): Reference[] =>
+  SYNC_COLLECTION_NAMES.flatMap(name =>
+    getSyncCollection(name).fields
+      .filter(field => field.references === collection)
+      .map(field => ({ collection: name, field }))
+  );
+
+export const referenceService = {
+  /**
+   * Which of the records being deleted a restrict rule keeps, with why
+   * (e.g. "Category still has 2 todos"). Referencing records in `deleting`
+   * (ids per collection) are being deleted in the same operation and do not count.
+   * Returned ids are as PostgreSQL returns them (lowercase).
+   */
+  async findBlocked(
+    collection: SyncCollection,
+    userId: string,
+    ids: string[],
+    deleting: Partial<Record<SyncCollection, string[]>> = {},
+    db: Pool | PoolClient = pool
+  ): Promise<Map<string, string>> {
+    const blocked = new Map<string, string>();
+    if (ids.length === 0) {
+      return blocked;
+    }
+
+    const { label } = getSyncCollection(collection);
+    for (const { collection: referencing, field } of referencesTo(collection)) {
+      if (field.onDelete !== 'restrict') {
+        continue;
+      }
+
+      const { table, ownerColumn, label: referencingLabel } = getSyncCollection(referencing);
+      const result = await db.query(
+        `SELECT ${field.remote} AS id, COUNT(*)::int AS count FROM ${table}
+         WHERE ${field.remote} = ANY($1::uuid[]) AND ${ownerColumn} = $2 AND is_deleted = FALSE
+           AND NOT (id = ANY($3::uuid[]))
+         GROUP BY ${field.remote}`,
+        [ids, userId, deleting[referencing] ?? []]
+      );
+      for (const row of result.rows) {
+        const noun = row.count === 1 ? referencingLabel.singular : referencingLabel.plural;
+        blocked.set(row.id, blocked.get(row.id) ?? `${label.singular} still has ${row.count} ${noun.toLowerCase()}`);
+      }
+    }
+    return blocked;
+  },
+
+  /**
+   * Apply set-null and cascade rules to the records referencing deleted records
+   * Call in the deleting transaction, after checking findBlocked. Cascaded
+   * deletes apply their own collection's rules in turn.
+   * Returns the number of records changed per collection.
+   */
+  async applyDeleteRules(
+    collection: SyncCollection,
+    userId: string,
+    ids: string[],
+    db: Pool | PoolClient = pool
+  ): Promise<Partial<Record<SyncCollection, number>>> {
+    const changed: Partial<Record<SyncCollection, number>> = {};
+    if (ids.length === 0) {
+      return changed;
+    }
+
+    const modifiedAt = Date.now();
+    for (const { collection: referencing, field } of referencesTo(collection)) {
+      const { table, ownerColumn } = getSyncCollection(referencing);
+      const clock = clockService.now();
+      let result;
+
+      if (field.onDelete === 'cascade') {
+        result = await db.query(
+          `UPDATE ${table}
+           SET is_deleted = TRUE, modified_at = $1, deleted_at_server = $1, clock = $2
+           WHERE ${field.remote} = ANY($3::uuid[]) AND ${ownerColumn} = $4 AND is_deleted = FALSE
+           RETURNING id`,
+          [modifiedAt, clock, ids, userId]
+        );
+        const cascaded = await this.applyDeleteRules(referencing, userId, result.rows.map(row => row.id), db);
+        for (const [name, count] of Object.entries(cascaded) as [SyncCollection, number][]) {
+          changed[name] = (changed[name] ?? 0) + count;
+        }
+      } else if (field.onDelete !== 'restrict') {
+        // set-null (the default), recorded like a REST edit of the field
+        result = await db.query(
+          `UPDATE ${table}
+           SET ${field.remote} = NULL, modified_at = $1, clock = $2,
+               field_timestamps = field_timestamps || jsonb_build_object('${field.remote}', $1::bigint),
+               field_clocks = field_clocks || jsonb_build_object('${field.remote}', $2::text)
+           WHERE ${field.remote} = ANY($3::uuid[]) AND ${ownerColumn} = $4 AND is_deleted = FALSE
+           RETURNING id`,
+          [modifiedAt, clock, ids, userId]
+        );
+      } else {
+        continue;
+      }
+
+      if (result.rows.length > 0) {
+        changed[referencing] = (changed[referencing] ?? 0) + result.rows.length;
+        console.log(`[References] ${field.onDelete ?? 'set-null'}: ${result.rows.length} ${referencing} of deleted ${collection}`);
+      }
+    }
+    return changed;
+  },
+};
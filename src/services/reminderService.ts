@@ -0,0 +1,132 @@
+import { query } from '../config/database';
+import { reminderConfig } from '../config/reminders';
+import { notificationService, Reminder } from './notificationService';
+
+/**
+ * Reminder Service
+ *
+ * Todos with a due time (due_at) and reminder offsets (minutes before it)
+ * get a reminder at each offset. The scheduler periodically looks for
+ * reminders that have come due and hands each to the notifier once: it is
+ * first claimed in todo_reminder_deliveries, so several server instances never
+ * send the same reminder twice, and a failed delivery is released for the next
+ * run. Changing the due time schedules new reminders. Completed and deleted
+ * todos get none, and reminders older than reminderConfig.lookbackMs are skipped.
+ */
+
+// Reminders dispatched per run at most (the rest wait for the next run)
+const BATCH_SIZE = 500;
+
+// Offsets are at most 5 digits (see the todos registry entry), so due_at - remind_at is bounded
+const MAX_OFFSET_MS = 99_999 * 60_000;
+
+let timer: NodeJS.Timeout | null = null;
+let running = false;
+
+export const reminderService = {
+  /**
+   * Reminders due at `now` (within the lookback window) not yet delivered, oldest first
+   */
+  async findDue(now: number = Date.now(), limit: number = BATCH_SIZE): Promise<Reminder[]> {
+    const result = await query(
+      `SELECT * FROM (
+         SELECT t.id AS todo_id, t.user_id, t.name, t.due_at, t.due_timezone, o.minutes,
+                t.due_at - o.minutes * 60000 AS remind_at
+         FROM todos t
+         CROSS JOIN LATERAL unnest(string_to_array(t.reminder_offsets, ',')::int[]) AS o(minutes)
+         WHERE t.reminder_offsets IS NOT NULL AND t.is_deleted = FALSE AND t.done = FALSE
+           AND t.due_at > $1::bigint - $2::bigint AND t.due_at <= $1::bigint + $3::bigint
+       ) r
+       WHERE r.remind_at <= $1 AND r.remind_at > $1::bigint - $2::bigint
+         AND NOT EXISTS (
+           SELECT 1 FROM todo_reminder_deliveries d WHERE d.todo_id = r.todo_id AND d.remind_at = r.remind_at
+         )
+       ORDER BY r.remind_at
+       LIMIT $4`,
+      [now, reminderConfig.lookbackMs, MAX_OFFSET_MS, limit]
+    );
+
+    return result.rows.map(row => ({
+      userId: row.user_id,
+      todoId: row.todo_id,
+      title: row.name,
+      dueAt: Number(row.due_at),
+      dueTimezone: row.due_timezone,
+      remindAt: Number(row.remind_at),
+      offsetMinutes: row.minutes,
+    }));
+  },
+
+  /**
+   * Deliver every due reminder through the notifier
+   * Returns the number delivered.
+   */
+  async dispatchDue(now: number = Date.now()): Promise<number> {
+    let delivered = 0;
+
+    for (const reminder of await this.findDue(now)) {
+      const claim = await query(
+        `INSERT INTO todo_reminder_deliveries (todo_id, remind_at, dispatched_at)
+         VALUES ($1, $2, $3)
+         ON CONFLICT DO NOTHING
+         RETURNING todo_id`,
+        [reminder.todoId, reminder.remindAt, Date.now()]
+      );
+      if (claim.rows.length === 0) {
+        continue;  // Claimed by another instance
+      }
+
+      try {
+        await notificationService.notify(reminder);
+        delivered++;
+      } catch (error) {
+        console.error(
+          `[Reminders] Delivery failed for todo ${reminder.todoId}:`,
+          error instanceof Error ? error.message : error
+        );
+        await query(
+          'DELETE FROM todo_reminder_deliveries WHERE todo_id = $1 AND remind_at = $2',
+          [reminder.todoId, reminder.remindAt]
+        );
+      }
+    }
+
+    if (delivered > 0) {
+      console.log(`[Reminders] Delivered ${delivered} reminders`);
+    }
+    return delivered;
+  },
+
+  /**
+   * Run the scheduler periodically (no-op if the interval is 0 or already started)
+   * A run still in progress when the next one is due is not overlapped.
+   */
+  startSchedule(intervalMs: number = reminderConfig.schedulerIntervalMs): void {
+    if (timer || intervalMs <= 0) {
+      return;
+    }
+
+    timer = setInterval(async () => {
+      if (running) {
+        return;
+      }
+      running = true;
+      try {
+        await reminderService.dispatchDue();
+      } catch (error) {
+        console.error('[Reminders] Scheduler run failed:', error instanceof Error ? error.message : error);
+      } finally {
+        running = false;
+      }
+    }, intervalMs);
+    // Do not keep the process alive just for reminders
+    timer.unref();
+  },
+
+  stopSchedule(): void {
+    if (timer) {
+      clearInterval(timer);
+      timer = null;
+    }
+  },
+};
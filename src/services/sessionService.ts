@@ -0,0 +1,162 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Pool, PoolClient } from 'pg';
+import pool, { query } from '../config/database';
+
+/**
+ * Session (logged-in device) interface
+ */
+export interface Session {
+  id: string;
+  user_id: string;
+  device_name: string | null;
+  platform: string | null;
+  last_ip: string | null;
+  created_timestamp: number;
+  last_seen_at: number;
+  last_sync_at: number | null;
+  revoked_at: number | null;
+}
+
+export interface CreateSessionInput {
+  deviceName?: string | null;
+  platform?: string | null;
+  ip?: string | null;
+}
+
+/**
+ * How long a successful "session is active" check is trusted before hitting the
+ * database again. Revocations made on this instance take effect immediately;
+ * revocations made on another instance take effect within this window.
+ */
+const ACTIVE_CACHE_MS = parseInt(process.env.SESSION_CHECK_CACHE_MS || '30000', 10);
+
+// sessionId -> time until which the session is known to be active
+const activeCache = new Map<string, number>();
+
+export const sessionService = {
+  /**
+   * Create a session for a new login
+   */
+  async create(userId: string, input: CreateSessionInput, db: Pool | PoolClient = pool): Promise<Session> {
+    const id = uuidv4();
+    const now = Date.now();
+
+    const result = await db.query(
+      `INSERT INTO sessions (id, user_id, device_name, platform, last_ip, created_timestamp, last_seen_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)
+       RETURNING *`,
+      [id, userId, input.deviceName || null, input.platform || null, input.ip || null, now, now]
+    );
+    return result.rows[0];
+  },
+
+  /**
+   * Get all active sessions for a user, most recently seen first
+   */
+  async getAll(userId: string): Promise<Session[]> {
+    const result = await query(
+      `SELECT * FROM sessions
+       WHERE user_id = $1 AND revoked_at IS NULL
+       ORDER BY last_seen_at DESC`,
+      [userId]
+    );
+    return result.rows;
+  },
+
+  /**
+   * Revoke a session and all of its refresh tokens
+   * Pass userId to restrict the revocation to sessions owned by that user
+   */
+  async revoke(id: string, userId?: string): Promise<boolean> {
+    const now = Date.now();
+    activeCache.delete(id);
+
+    const result = await query(
+      `UPDATE sessions SET revoked_at = $1
+       WHERE id = $2 AND ($3::uuid IS NULL OR user_id = $3) AND revoked_at IS NULL`,
+      [now, id, userId || null]
+    );
+
+    if ((result.rowCount ?? 0) === 0) {
+      return false;
+    }
+
+    await query(
+      `UPDATE refresh_tokens SET revoked_at = $1
+       WHERE family_id = $2 AND revoked_at IS NULL`,
+      [now, id]
+    );
+    return true;
+  },
+
+  /**
+   * Revoke every session (and refresh token) a user has
+   * Used when credentials change so all devices must sign in again
+   */
+  async revokeAllForUser(userId: string): Promise<void> {
+    const now = Date.now();
+
+    const result = await query(
+      `UPDATE sessions SET revoked_at = $1
+       WHERE user_id = $2 AND revoked_at IS NULL
+       RETURNING id`,
+      [now, userId]
+    );
+    for (const row of result.rows) {
+      activeCache.delete(row.id);
+    }
+
+    await query(
+      `UPDATE refresh_tokens SET revoked_at = $1
+       WHERE user_id = $2 AND revoked_at IS NULL`,
+      [now, userId]
+    );
+  },
+
+  /**
+   * Check that a session is still active, recording when and from where it was last seen
+   * Positive results are cached briefly so this is not a database write per request
+   */
+  async isActive(id: string, ip?: string | null): Promise<boolean> {
+    const now = Date.now();
+    const cachedUntil = activeCache.get(id);
+    if (cachedUntil !== undefined && cachedUntil > now) {
+      return true;
+    }
+
+    const result = await query(
+      `UPDATE sessions SET last_seen_at = $1, last_ip = COALESCE($2, last_ip)
+       WHERE id = $3 AND revoked_at IS NULL
+       RETURNING id`,
+      [now, ip || null, id]
+    );
+
+    if (result.rows.length === 0) {
+      activeCache.delete(id);
+      return false;
+    }
+
+    activeCache.set(id, now + ACTIVE_CACHE_MS);
+    return true;
+  },
+
+  /**
+   * Record a sync for a session (always checked against the database)
+   * Returns false if the session has been revoked
+   */
+  async touchSync(id: string, ip?: string | null): Promise<boolean> {
+    const now = Date.now();
+    const result = await query(
+      `UPDATE sessions SET last_sync_at = $1, last_seen_at = $1, last_ip = COALESCE($2, last_ip)
+       WHERE id = $3 AND revoked_at IS NULL
+       RETURNING id`,
+      [now, ip || null, id]
+    );
+
+    if (result.rows.length === 0) {
+      activeCache.delete(id);
+      return false;
+    }
+    return true;
+  },
+};
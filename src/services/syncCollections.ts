@@ -0,0 +1,88 @@
+import { syncConfig } from '../config/sync';
+import type { FieldMapping } from './fieldMappingService';
+
+/**
+ * Synced Collections
+ *
+ * Registry of the tables synced with the WatermelonDB client. Declaring a
+ * collection here gives it, without further code:
+ * - sync pull (full, incremental, paged and migration pulls)
+ * - sync push with field-level merge, conflict logging and soft delete
+ * - REST CRUD at /api/<name>, behind the `<name>:read` / `<name>:write` API key scopes
+ * - a section in the account export
+ *
+ * Besides its mapped columns, a synced table needs:
+ *   id UUID PRIMARY KEY,
+ *   <ownerColumn> UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+ *   created_timestamp BIGINT NOT NULL, modified_at BIGINT NOT NULL,
+ *   is_deleted BOOLEAN NOT NULL DEFAULT FALSE, deleted_at_server BIGINT,
+ *   field_timestamps JSONB NOT NULL DEFAULT '{}',
+ *   clock TEXT, field_clocks JSONB NOT NULL DEFAULT '{}',
+ *   change_seq BIGINT NOT NULL DEFAULT 0, created_seq BIGINT NOT NULL DEFAULT 0
+ * and the change sequence trigger (see 011_synced_collections.sql):
+ *   CREATE TRIGGER trg_<table>_change_seq BEFORE INSERT OR UPDATE ON <table>
+ *     FOR EACH ROW EXECUTE FUNCTION assign_change_seq('<ownerColumn>');
+ *
+ * Collections are pulled and pushed in the order listed, so parents must come
+ * before the collections that reference them (categories before todos). What
+ * deleting a parent does to its children is the referencing field's onDelete
+ * rule (see referenceService).
+ */
+
+export interface SyncedCollectionDefinition {
+  name: string;  // Collection name in sync payloads, the client schema and REST paths
+  table: string;  // PostgreSQL table
+  ownerColumn: string;  // Column holding the owning user's id
+  fields: readonly FieldMapping[];  // Local field <-> remote column mapping and validation
+  required: readonly string[];  // LOCAL fields that must be present and non-empty
+  label: { singular: string; plural: string };  // For API messages and logs
+}
+
+export const SYNC_COLLECTIONS = [
+  {
+    name: 'categories',
+    table: 'categories',
+    ownerColumn: 'user_id',
+    fields: [
+      { local: 'id', remote: 'id', type: 'uuid' },
+      { local: 'title', remote: 'name', mergeable: true, type: 'string', maxLength: 255 },
+      { local: 'created_at', remote: 'created_timestamp', type: 'number' },
+      { local: 'updated_at', remote: 'modified_at', type: 'number' },
+    ],
+    required: ['title'],
+    label: { singular: 'Category', plural: 'Categories' },
+  },
+  {
+    name: 'todos',
+    table: 'todos',
+    ownerColumn: 'user_id',
+    fields: [
+      { local: 'id', remote: 'id', type: 'uuid' },
+      { local: 'title', remote: 'name', mergeable: true, type: 'string', maxLength: 255 },
+      { local: 'description', remote: 'details', mergeable: true, default: null, type: 'string', maxLength: 10000 },
+      { local: 'is_completed', remote: 'done', mergeable: true, default: false, type: 'boolean' },
+      { local: 'category_id', remote: 'category_id', mergeable: true, default: null, type: 'uuid',
+        references: 'categories', onDelete: syncConfig.categoryDeletePolicy },
+      { local: 'due_at', remote: 'due_at', mergeable: true, default: null, type: 'number' },
+      { local: 'due_timezone', remote: 'due_timezone', mergeable: true, default: null, type: 'timezone', maxLength: 64 },
+      {
+        local: 'reminder_offsets', remote: 'reminder_offsets', mergeable: true, default: null, type: 'string', maxLength: 255,
+        format: { pattern: /^\d{1,5}(,\d{1,5})*$/, description: 'comma-separated minutes before due_at (e.g. "10,60")' },
+      },
+      { local: 'created_at', remote: 'created_timestamp', type: 'number' },
+      { local: 'updated_at', remote: 'modified_at', type: 'number' },
+    ],
+    required: ['title'],
+    label: { singular: 'Todo', plural: 'Todos' },
+  },
+] as const satisfies readonly SyncedCollectionDefinition[];
+
+export type SyncCollection = typeof SYNC_COLLECTIONS[number]['name'];
+
+export const SYNC_COLLECTION_NAMES: SyncCollection[] = SYNC_COLLECTIONS.map(collection => collection.name);
+
+export const isSyncCollection = (name: unknown): name is SyncCollection =>
+  typeof name === 'string' && (SYNC_COLLECTION_NAMES as string[]).includes(name);
+
+export const getSyncCollection = (name: SyncCollection): SyncedCollectionDefinition =>
+  SYNC_COLLECTIONS.find(collection => collection.name === name)!;
@@ -0,0 +1,144 @@
+import { PoolClient } from 'pg';
+import pool, { query } from '../config/database';
+
+/**
+ * Sync Event Service
+ *
+ * Tells a user's connected devices that their data changed, so they can pull
+ * right away instead of polling. Writers publish with Postgres NOTIFY after
+ * their transaction commits; every server instance LISTENs on the channel and
+ * forwards the event to its own subscribers (GET /api/sync/events streams),
+ * so fan-out works across instances.
+ */
+
+const CHANNEL = 'sync_events';
+
+// Delay before re-establishing a lost LISTEN connection
+const RECONNECT_DELAY_MS = 5000;
+
+export interface SyncEvent {
+  userId: string;
+  sessionId: string | null;  // Device session that made the change (null for API keys / server jobs)
+  cursor: number;  // User's change sequence after the change (compare with lastPulledAt)
+}
+
+interface Subscriber {
+  sessionId: string | null;
+  listener: (event: SyncEvent) => void;
+}
+
+const subscribers = new Map<string, Set<Subscriber>>();
+
+let listenClient: PoolClient | null = null;
+let connecting: Promise<void> | null = null;
+
+const dispatch = (payload: string | undefined) => {
+  let event: SyncEvent;
+  try {
+    event = JSON.parse(payload || '');
+  } catch {
+    console.error('[SyncEvents] Ignoring malformed notification');
+    return;
+  }
+
+  for (const subscriber of subscribers.get(event.userId) || []) {
+    // The device that made the change already has it
+    if (subscriber.sessionId !== null && subscriber.sessionId === event.sessionId) {
+      continue;
+    }
+    subscriber.listener(event);
+  }
+};
+
+/**
+ * Retry the LISTEN connection while anyone is subscribed
+ */
+const scheduleReconnect = () => {
+  setTimeout(() => {
+    if (subscribers.size === 0) {
+      return;
+    }
+    ensureListening().catch(error => {
+      console.error('[SyncEvents] Reconnect failed:', error.message);
+      scheduleReconnect();
+    });
+  }, RECONNECT_DELAY_MS);
+};
+
+/**
+ * Open the dedicated LISTEN connection (once per instance), reconnecting if it drops
+ */
+const ensureListening = (): Promise<void> => {
+  if (listenClient) {
+    return Promise.resolve();
+  }
+  if (connecting) {
+    return connecting;
+  }
+
+  connecting = (async () => {
+    const client = await pool.connect();
+    try {
+      client.on('notification', message => dispatch(message.payload));
+      client.on('error', error => {
+        console.error('[SyncEvents] Listen connection lost:', error.message);
+        listenClient = null;
+        client.release(error);
+        scheduleReconnect();
+      });
+      await client.query(`LISTEN ${CHANNEL}`);
+      listenClient = client;
+      console.log('[SyncEvents] Listening for changes');
+    } catch (error) {
+      client.release(error as Error);
+      throw error;
+    }
+  })().finally(() => {
+    connecting = null;
+  });
+
+  return connecting;
+};
+
+export const syncEventService = {
+  /**
+   * Receive change events for a user's data
+   * Events caused by `sessionId` itself are skipped. Returns an unsubscribe function.
+   */
+  async subscribe(userId: string, sessionId: string | null, listener: (event: SyncEvent) => void): Promise<() => void> {
+    await ensureListening();
+
+    const subscriber: Subscriber = { sessionId, listener };
+    const userSubscribers = subscribers.get(userId) || new Set<Subscriber>();
+    userSubscribers.add(subscriber);
+    subscribers.set(userId, userSubscribers);
+
+    return () => {
+      userSubscribers.delete(subscriber);
+      if (userSubscribers.size === 0) {
+        subscribers.delete(userId);
+      }
+    };
+  },
+
+  /**
+   * Announce that a user's data changed (call after the writing transaction commits)
+   * Carries the user's current change sequence. Failures are logged, not thrown:
+   * clients still catch up on their next pull.
+   */
+  async publish(userId: string, sessionId: string | null = null): Promise<void> {
+    try {
+      await query(
+        `SELECT pg_notify($1, json_build_object(
+           'userId', $2::text,
+           'sessionId', $3::text,
+           'cursor', COALESCE((SELECT last_seq FROM sync_counters WHERE user_id = $2::uuid), 0)
+         )::text)`,
+        [CHANNEL, userId, sessionId]
+      );
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Publish failed';
+      console.error('[SyncEvents] Publish error:', message);
+    }
+  },
+};
@@ -0,0 +1,211 @@
+import type { SyncChanges } from './syncService';
+import { fieldMappingService } from './fieldMappingService';
+import { isSyncCollection, SYNC_COLLECTION_NAMES, SyncCollection } from './syncCollections';
+
+/**
+ * Sync Schema Service
+ *
+ * Knows which client (WatermelonDB) schema versions the sync protocol supports
+ * and what each version's records look like, so that:
+ * - pull payloads only contain columns the client's schema has
+ * - pushes from older clients get defaults for fields they do not send
+ * - clients upgrading mid-life (WatermelonDB `migration` pull) receive full
+ *   records for tables and columns their migration added
+ *
+ * To ship a schema change: map the new column (with a default) in its
+ * collection's `fields` in syncCollections, add its LOCAL field to the next version's column list
+ * below, and bump CURRENT_SCHEMA_VERSION.
+ */
+
+export interface SyncSchemaVersion {
+  version: number;
+  // LOCAL field names known to this client version, per collection
+  collections: Partial<Record<SyncCollection, string[]>>;
+}
+
+export const SYNC_SCHEMA_VERSIONS: SyncSchemaVersion[] = [
+  {
+    version: 1,
+    collections: {
+      categories: ['id', 'title', 'created_at', 'updated_at'],
+      todos: ['id', 'title', 'description', 'is_completed', 'category_id', 'created_at', 'updated_at'],
+    },
+  },
+  {
+    // Due dates and reminders
+    version: 2,
+    collections: {
+      categories: ['id', 'title', 'created_at', 'updated_at'],
+      todos: [
+        'id', 'title', 'description', 'is_completed', 'category_id',
+        'due_at', 'due_timezone', 'reminder_offsets', 'created_at', 'updated_at',
+      ],
+    },
+  },
+];
+
+export const MIN_SCHEMA_VERSION = SYNC_SCHEMA_VERSIONS[0].version;
+export const CURRENT_SCHEMA_VERSION = SYNC_SCHEMA_VERSIONS[SYNC_SCHEMA_VERSIONS.length - 1].version;
+
+/**
+ * Values for fields an older client does not know about, used when it creates records
+ */
+const FIELD_DEFAULTS = {} as Record<SyncCollection, Record<string, any>>;
+for (const collection of SYNC_COLLECTION_NAMES) {
+  FIELD_DEFAULTS[collection] = fieldMappingService.defaults(collection);
+}
+
+/**
+ * WatermelonDB migration sync info, sent with the first pull after a schema upgrade
+ */
+export interface SyncMigration {
+  from: number;
+  tables: string[];  // Tables created by the migration
+  columns: Array<{ table: string; columns: string[] }>;  // Columns added to existing tables
+}
+
+/**
+ * Which collections need their full contents resent after a client migration
+ */
+export interface MigrationPlan {
+  newTables: SyncCollection[];  // Client has no rows at all: send everything as created
+  newColumns: SyncCollection[];  // Client has rows missing the new columns: resend them
+}
+
+const unsupportedVersion = (version: unknown): Error =>
+  new Error(
+    `Unsupported schema version ${JSON.stringify(version)}. ` +
+    `Supported versions: ${MIN_SCHEMA_VERSION}-${CURRENT_SCHEMA_VERSION}`
+  );
+
+const getVersion = (version: number): SyncSchemaVersion => {
+  const schema = SYNC_SCHEMA_VERSIONS.find(v => v.version === version);
+  if (!schema) {
+    throw unsupportedVersion(version);
+  }
+  return schema;
+};
+
+const pick = (record: any, fields: string[]) => {
+  const picked: any = {};
+  for (const field of fields) {
+    if (field in record) {
+      picked[field] = record[field];
+    }
+  }
+  return picked;
+};
+
+export const syncSchemaService = {
+  /**
+   * Validate a client schema version; a missing version means the current one
+   */
+  resolveVersion(value: unknown): number {
+    if (value === undefined || value === null) {
+      return CURRENT_SCHEMA_VERSION;
+    }
+    if (typeof value !== 'number' || !Number.isInteger(value)) {
+      throw unsupportedVersion(value);
+    }
+    return getVersion(value).version;
+  },
+
+  /**
+   * Shape pulled changes for a client version (drop columns it does not know,
+   * and collections its schema does not have)
+   */
+  shapeOutgoing(version: number, changes: SyncChanges): SyncChanges {
+    const schema = getVersion(version);
+    const shaped: any = {};
+
+    for (const collection of Object.keys(changes) as SyncCollection[]) {
+      const fields = schema.collections[collection];
+      if (!fields) {
+        continue;
+      }
+      shaped[collection] = {
+        created: changes[collection].created.map(record => pick(record, fields)),
+        updated: changes[collection].updated.map(record => pick(record, fields)),
+        deleted: changes[collection].deleted,
+      };
+    }
+
+    return shaped;
+  },
+
+  /**
+   * Shape pushed changes from a client version
+   * Created records get defaults for fields the version does not have; for
+   * updated records unknown fields are simply absent, so the server keeps them.
+   */
+  shapeIncoming(version: number, changes: SyncChanges): SyncChanges {
+    const schema = getVersion(version);
+    const current = getVersion(CURRENT_SCHEMA_VERSION);
+    const shaped: any = {};
+
+    for (const collection of Object.keys(changes) as SyncCollection[]) {
+      const fields = schema.collections[collection];
+      if (!fields) {
+        shaped[collection] = { created: [], updated: [], deleted: [] };
+        continue;
+      }
+
+      const missing = (current.collections[collection] || []).filter(field => !fields.includes(field));
+      const defaults = pick(FIELD_DEFAULTS[collection], missing);
+      const keep = [...fields, '_status', '_changed', '_clock'];
+
+      shaped[collection] = {
+        created: changes[collection].created.map(record => ({ ...defaults, ...pick(record, keep) })),
+        updated: changes[collection].updated.map(record => pick(record, keep)),
+        deleted: changes[collection].deleted,
+        deletedAt: changes[collection].deletedAt,
+      };
+    }
+
+    return shaped;
+  },
+
+  /**
+   * Work out what a migrating client needs resent
+   * Uses the client's own migration info when given, falling back to the
+   * difference between the two schema versions.
+   */
+  getMigrationPlan(migration: SyncMigration | null | undefined, toVersion: number): MigrationPlan | null {
+    if (!migration) {
+      return null;
+    }
+
+    // A version we no longer know: resend everything the client could have
+    const from = SYNC_SCHEMA_VERSIONS.find(v => v.version === migration.from) || { version: migration.from, collections: {} };
+    const to = getVersion(toVersion);
+    const newTables = new Set<SyncCollection>();
+    const newColumns = new Set<SyncCollection>();
+
+    for (const table of migration.tables || []) {
+      if (isSyncCollection(table)) {
+        newTables.add(table);
+      }
+    }
+    for (const change of migration.columns || []) {
+      if (isSyncCollection(change.table) && !newTables.has(change.table)) {
+        newColumns.add(change.table);
+      }
+    }
+
+    for (const collection of Object.keys(to.collections) as SyncCollection[]) {
+      const before = from.collections[collection];
+      const after = to.collections[collection] || [];
+      if (!before) {
+        if (SYNC_SCHEMA_VERSIONS.includes(from)) {
+          newTables.add(collection);
+        } else if (!newTables.has(collection)) {
+          newColumns.add(collection);
+        }
+      } else if (after.some(field => !before.includes(field)) && !newTables.has(collection)) {
+        newColumns.add(collection);
+      }
+    }
+
+    return { newTables: [...newTables], newColumns: [...newColumns] };
+  },
+};
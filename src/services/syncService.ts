@@ -1,150 +1,623 @@
-import { query, getClient } from '../config/database';
-import { categoryService, Category } from './categoryService';
-import { todoService, Todo } from './todoService';
+import crypto from 'crypto';
+import { PoolClient } from 'pg';
+import { getClient } from '../config/database';
+import { syncConfig } from '../config/sync';
+import { clockService, Hlc } from './clockService';
+import { fieldMappingService } from './fieldMappingService';
+import { getCollectionService, RowChanges, RowDeletion, RowMerge, SyncedRow } from './collectionService';
+import { getSyncCollection, isSyncCollection, SYNC_COLLECTION_NAMES, SyncCollection } from './syncCollections';
+import { conflictService, RecordConflictInput } from './conflictService';
+import { syncEventService } from './syncEventService';
+import { recordValidationService, FieldError, RecordRejection, isUuid } from './recordValidationService';
+import { referenceService } from './referenceService';
+import type { MigrationPlan } from './syncSchemaService';
 
 /**
  * Sync Service
  * 
  * This service handles the translation between LOCAL field names (used by client)
- * and REMOTE field names (used by PostgreSQL).
- * 
- * Field Mapping:
- * | Local (Client)    | Remote (PostgreSQL)   |
- * |-------------------|-----------------------|
- * | title             | name                  |
- * | description       | details               |
- * | is_completed      | done                  |
- * | created_at        | created_timestamp     |
- * | updated_at        | modified_at           |
+ * and REMOTE field names (used by PostgreSQL), as defined in fieldMappingService.
+ * It works on every collection registered in syncCollections, in registry order.
  */
 
-export interface SyncChanges {
-  categories: {
-    created: any[];
-    updated: any[];
-    deleted: string[];
-  };
-  todos: {
-    created: any[];
-    updated: any[];
-    deleted: string[];
-  };
+export interface CollectionChanges {
+  created: any[];
+  updated: any[];
+  deleted: string[];
+  // Push only: when deleted ids were deleted on the client (deleted_at in ms, or
+  // with the deletion's hybrid logical clock). Ids without one are deleted now.
+  deletedAt?: Record<string, number | DeletionTime>;
 }
 
+export interface DeletionTime {
+  deleted_at: number;
+  _clock?: Hlc;
+}
+
+export type SyncChanges = Record<SyncCollection, CollectionChanges>;
+
 export interface PullResponse {
   changes: SyncChanges;
-  timestamp: number;
+  timestamp: number;  // Sync cursor (server change sequence), sent back as lastPulledAt
+  clock: Hlc;  // Server hybrid logical clock; clients advance their own clock past it
+}
+
+export interface PaginatedPullResponse extends PullResponse {
+  hasMore: boolean;
+  cursor: string | null;  // Pass back to get the next page; null when done
 }
 
 export interface PushRequest {
   changes: SyncChanges;
   lastPulledAt: number | null;
+  batchId?: string | null;  // Client idempotency key; retries with the same id are replayed
+  strict?: boolean;  // Reject the whole batch if any record is invalid (default: apply the valid ones)
+  clock?: Hlc | null;  // Client's hybrid logical clock (records may also carry their own `_clock`)
+}
+
+export interface FieldResolution {
+  field: string;  // Local field name
+  winner: 'local' | 'remote';
+  localUpdatedAt: number;
+  remoteUpdatedAt: number;
+  localClock: Hlc;  // Clocks decide the winner; updated_at times are for display
+  remoteClock: Hlc;
 }
 
-interface ConflictResolution {
+export interface ConflictResolution {
   recordId: string;
   collection: string;
-  winner: 'local' | 'remote';
+  winner: 'local' | 'remote' | 'merged';
   localUpdatedAt: number;
   remoteUpdatedAt: number;
+  localClock: Hlc;
+  remoteClock: Hlc;
   reason: string;
+  fields?: FieldResolution[];  // Per-field outcome when the record was merged
+  resurrected?: boolean;  // A deleted record lives on: the delete lost to an edit
+}
+
+/**
+ * One side of a last-write-wins comparison
+ */
+export interface VersionStamp {
+  updatedAt: number;  // Wall-clock time (display)
+  clock: Hlc;  // Ordering
+}
+
+/**
+ * Result of merging a pushed record into its server row (see mergeRecord)
+ */
+export interface MergeOutcome {
+  resolution: ConflictResolution;
+  write: RowMerge | null;  // Columns the client won (null when the server kept every field)
+  conflict: RecordConflictInput | null;  // Discarded values to log
+  serverKept: boolean;  // Some field kept the server's value (record is returned in `merged`)
+}
+
+/**
+ * A pushed record with the list it came in
+ */
+export interface PushedRecord {
+  record: any;
+  mode: 'create' | 'update';
+  clock: Hlc;  // Orders the record's write (see stampRecord)
+}
+
+/**
+ * A pushed deletion, ordered like a pushed record
+ */
+export interface PushedDeletion {
+  id: string;
+  deletedAt: number;  // Client deletion time (display and conflict resolution only), or now when not sent
+  clock: Hlc;
+}
+
+/**
+ * Who/what a push came from, recorded with any conflicts it causes
+ */
+export interface PushContext {
+  lastPulledAt: number | null;
+  deleting?: Partial<Record<SyncCollection, string[]>>;  // Ids the push deletes, per collection
+  sessionId?: string | null;
+  requestId?: string | null;
+}
+
+export interface PushResult {
+  ok: boolean;
+  replayed?: boolean;  // True when returned from the idempotency store instead of re-executed
+  conflicts: ConflictResolution[];
+  // Server state (LOCAL field names) of records where at least one field kept
+  // the server's value, so the client can apply the merged result right away
+  merged: Record<SyncCollection, any[]>;
+  // Records that failed validation or could not be saved (not applied)
+  rejected: RecordRejection[];
+  // Same, in WatermelonDB's format, so the client keeps them marked as unsynced
+  experimentalRejectedIds?: Partial<Record<SyncCollection, string[]>>;
+  clock?: Hlc;  // Server hybrid logical clock after the push
+}
+
+/**
+ * Empty change set with an entry for every collection
+ */
+export const emptySyncChanges = (): SyncChanges => {
+  const changes = {} as SyncChanges;
+  for (const collection of SYNC_COLLECTION_NAMES) {
+    changes[collection] = { created: [], updated: [], deleted: [] };
+  }
+  return changes;
+};
+
+const emptyMerged = (): PushResult['merged'] => {
+  const merged = {} as PushResult['merged'];
+  for (const collection of SYNC_COLLECTION_NAMES) {
+    merged[collection] = [];
+  }
+  return merged;
+};
+
+/**
+ * Fields merged individually on push (Local field -> Remote column)
+ * Each column's last change time is kept in the row's field_timestamps
+ */
+const MERGE_FIELDS = {} as Record<SyncCollection, Record<string, string>>;
+for (const collection of SYNC_COLLECTION_NAMES) {
+  MERGE_FIELDS[collection] = fieldMappingService.mergeFields(collection);
 }
 
+/**
+ * Local fields the client actually changed
+ * WatermelonDB sends a comma-separated `_changed` list; without it every
+ * mergeable field present in the record is treated as changed.
+ */
+const getChangedFields = (collection: SyncCollection, record: any): string[] => {
+  const mergeable = Object.keys(MERGE_FIELDS[collection]).filter(field => field in record);
+  if (typeof record._changed !== 'string' || record._changed.length === 0) {
+    return mergeable;
+  }
+
+  const changed = record._changed.split(',').map((field: string) => field.trim());
+  return mergeable.filter(field => changed.includes(field));
+};
+
+/**
+ * Whether the client pushed without having pulled the server row's current version
+ */
+const isStale = (serverRecord: any, lastPulledAt: number | null): boolean =>
+  lastPulledAt === null || Number(serverRecord.change_seq) > lastPulledAt;
+
+const transformToLocal = (collection: SyncCollection, record: any) =>
+  fieldMappingService.toLocal(collection, record);
+
+/**
+ * Clock of a row's last write, or of its last write to a column
+ * Rows and columns written before clocks existed fall back to their wall-clock times.
+ */
+const rowClock = (row: any): Hlc => row.clock || clockService.fromMillis(Number(row.modified_at));
+
+const fieldClock = (row: any, column: string): Hlc =>
+  row.field_clocks?.[column] ||
+  clockService.fromMillis(Number(row.field_timestamps?.[column] ?? row.modified_at));
+
+/**
+ * Order a pushed record by its `_clock` (HLC) when the client sends one, or
+ * else by its updated_at, advancing the server clock past it.
+ * A clock too far ahead of the server is clamped to the server clock (with
+ * updated_at) or, with the 'reject' policy, returns null.
+ */
+const stampRecord = (record: any): { record: any; clock: Hlc } | null => {
+  const clock = clockService.isValid(record._clock) ? record._clock : clockService.fromMillis(Number(record.updated_at));
+  
+  if (!clockService.isTooFarAhead(clock)) {
+    clockService.receive(clock);
+    return { record, clock };
+  }
+  if (syncConfig.clockSkewPolicy === 'reject') {
+    return null;
+  }
+  
+  const now = clockService.now();
+  console.warn(`[Sync] Clamped record ${record.id} stamped ${clock} to server clock ${now}`);
+  return { record: { ...record, updated_at: clockService.toMillis(now) }, clock: now };
+};
+
+// Pushes with more resolutions than this only log their count
+const LOGGED_RESOLUTIONS_MAX = 20;
+
+// Server rows are keyed by id as PostgreSQL returns it (lowercase)
+const rowKey = (id: string) => id.toLowerCase();
+
+const couldNotSave = (collection: SyncCollection, recordId: string, message: string): RecordRejection => ({
+  collection,
+  recordId,
+  reasons: [{ field: null, message: `Could not be saved: ${message}` }],
+});
+
+/**
+ * Run a bulk push write inside a savepoint. If it fails, the items are retried
+ * one at a time (each in its own savepoint), so a record the database refuses
+ * only rejects itself. Returns the written rows and each failed item's error.
+ */
+const writeIsolated = async <TItem, TRow>(
+  client: PoolClient,
+  items: TItem[],
+  write: (items: TItem[]) => Promise<TRow[]>
+): Promise<{ rows: TRow[]; failed: Map<TItem, string> }> => {
+  const rows: TRow[] = [];
+  const failed = new Map<TItem, string>();
+  
+  const attempt = async (batch: TItem[]): Promise<string | null> => {
+    await client.query('SAVEPOINT push_write');
+    try {
+      rows.push(...await write(batch));
+      await client.query('RELEASE SAVEPOINT push_write');
+      return null;
+    } catch (error) {
+      await client.query('ROLLBACK TO SAVEPOINT push_write');
+      await client.query('RELEASE SAVEPOINT push_write');
+      return error instanceof Error ? error.message : 'Unknown error';
+    }
+  };
+  
+  if (items.length === 0 || await attempt(items) === null) {
+    return { rows, failed };
+  }
+  
+  console.error(`[Sync] Bulk write of ${items.length} records failed, retrying one by one`);
+  for (const item of items) {
+    const error = await attempt([item]);
+    if (error !== null) {
+      console.error('[Sync] Could not save record:', error);
+      failed.set(item, error);
+    }
+  }
+  return { rows, failed };
+};
+
+// Error message for pulls that need a full resync (cursor predates the tombstone purge)
+export const SYNC_RESET_REQUIRED = 'Sync reset required';
+
+/**
+ * Read a user's current sync cursor (their last assigned change sequence)
+ * Never goes backwards relative to the cursor the client already holds
+ */
+const readSyncCursor = async (client: PoolClient, userId: string, lastPulledAt: number | null): Promise<number> => {
+  const counter = await client.query(
+    'SELECT last_seq, purged_seq FROM sync_counters WHERE user_id = $1',
+    [userId]
+  );
+  // No counter yet means the user has never written anything
+  const lastSeq = counter.rows.length > 0 ? Number(counter.rows[0].last_seq) : 0;
+  const purgedSeq = counter.rows.length > 0 ? Number(counter.rows[0].purged_seq) : 0;
+  
+  assertAfterPurgeHorizon(lastPulledAt, purgedSeq);
+  return Math.max(lastSeq, lastPulledAt ?? 0);
+};
+
+/**
+ * Reject an incremental pull from before the user's tombstone purge horizon:
+ * deletions up to that point are gone, so the client must resync from scratch
+ */
+const assertAfterPurgeHorizon = (since: number | null, purgedSeq: number): void => {
+  if (since !== null && since < purgedSeq) {
+    throw new Error(SYNC_RESET_REQUIRED);
+  }
+};
+
+// Registry order: parents (categories) are paged before the records referencing them
+const PAGED_COLLECTIONS: SyncCollection[] = SYNC_COLLECTION_NAMES;
+
+export const MAX_PULL_PAGE_SIZE = 5000;
+
+/**
+ * Continuation state for paginated pulls, handed to the client as an opaque string
+ */
+interface PullCursor {
+  since: number | null;  // lastPulledAt of the sync being paged
+  until: number;  // Change sequence snapshot taken on the first page
+  collection: SyncCollection;  // Collection the next page starts in
+  afterSeq: number;  // Last change_seq already delivered in that collection
+}
+
+const encodePullCursor = (cursor: PullCursor): string =>
+  Buffer.from(JSON.stringify(cursor)).toString('base64url');
+
+const decodePullCursor = (value: string): PullCursor => {
+  try {
+    const cursor = JSON.parse(Buffer.from(value, 'base64url').toString('utf-8'));
+    if (
+      typeof cursor.until !== 'number' ||
+      typeof cursor.afterSeq !== 'number' ||
+      !PAGED_COLLECTIONS.includes(cursor.collection) ||
+      (cursor.since !== null && typeof cursor.since !== 'number')
+    ) {
+      throw new Error('bad shape');
+    }
+    return cursor;
+  } catch {
+    throw new Error('Invalid pull cursor');
+  }
+};
+
 export const syncService = {
   /**
    * Pull changes since lastPulledAt
    * Transforms REMOTE column names to LOCAL column names for the client
+   * 
+   * lastPulledAt / timestamp are server change sequence values, not wall-clock
+   * times. The cursor and the changes are read in one REPEATABLE READ snapshot,
+   * and a user's writes are serialized on their sync counter, so every change
+   * with a sequence <= the returned cursor is included (no gaps).
+   * 
+   * With a migration plan (client upgraded its schema), collections that gained
+   * tables or columns are resent in full instead of incrementally.
    */
-  async pullChanges(userId: string, lastPulledAt: number | null): Promise<PullResponse> {
-    const timestamp = Date.now();
-    
-    const [categoryChanges, todoChanges] = await Promise.all([
-      categoryService.getChangesSince(userId, lastPulledAt),
-      todoService.getChangesSince(userId, lastPulledAt),
-    ]);
-    
-    /**
-     * Transform category from REMOTE to LOCAL field names
-     * Remote: name, created_timestamp, modified_at
-     * Local: title, created_at, updated_at
-     */
-    const transformCategoryToLocal = (cat: Category) => ({
-      id: cat.id,
-      title: cat.name,  // Remote 'name' -> Local 'title'
-      created_at: cat.created_timestamp,  // Remote 'created_timestamp' -> Local 'created_at'
-      updated_at: cat.modified_at,  // Remote 'modified_at' -> Local 'updated_at'
-    });
+  async pullChanges(userId: string, lastPulledAt: number | null, migration: MigrationPlan | null = null): Promise<PullResponse> {
+    const client = await getClient();
+    const changes = emptySyncChanges();
+    let timestamp: number;
     
-    /**
-     * Transform todo from REMOTE to LOCAL field names
-     * Remote: name, details, done, created_timestamp, modified_at
-     * Local: title, description, is_completed, created_at, updated_at
-     */
-    const transformTodoToLocal = (todo: Todo) => ({
-      id: todo.id,
-      title: todo.name,  // Remote 'name' -> Local 'title'
-      description: todo.details,  // Remote 'details' -> Local 'description'
-      is_completed: todo.done,  // Remote 'done' -> Local 'is_completed'
-      category_id: todo.category_id,
-      created_at: todo.created_timestamp,  // Remote 'created_timestamp' -> Local 'created_at'
-      updated_at: todo.modified_at,  // Remote 'modified_at' -> Local 'updated_at'
-    });
+    try {
+      await client.query('BEGIN ISOLATION LEVEL REPEATABLE READ READ ONLY');
+      
+      timestamp = await readSyncCursor(client, userId, lastPulledAt);
+      
+      // Queries on one client run sequentially; keep them in the same snapshot
+      for (const collection of SYNC_COLLECTION_NAMES) {
+        const rows = await this.getCollectionChanges(client, collection, userId, lastPulledAt, migration);
+        changes[collection] = {
+          created: rows.created.map(row => transformToLocal(collection, row)),
+          updated: rows.updated.map(row => transformToLocal(collection, row)),
+          deleted: rows.deleted,
+        };
+      }
+      
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+    
+    return { changes, timestamp, clock: clockService.now() };
+  },
+
+  /**
+   * Current sync cursor for a user (their last assigned change sequence)
+   */
+  async getCursor(userId: string): Promise<number> {
+    const client = await getClient();
+    try {
+      return await readSyncCursor(client, userId, null);
+    } finally {
+      client.release();
+    }
+  },
+
+  /**
+   * Read one collection's changes for a pull
+   * Collections touched by a client migration are read in full: all rows as
+   * created for new tables; for new columns, all rows (created or updated
+   * relative to lastPulledAt) plus deletions since lastPulledAt.
+   */
+  async getCollectionChanges(
+    client: PoolClient,
+    collection: SyncCollection,
+    userId: string,
+    lastPulledAt: number | null,
+    migration: MigrationPlan | null
+  ): Promise<RowChanges<SyncedRow>> {
+    const service = getCollectionService(collection);
+    
+    if (migration?.newTables.includes(collection)) {
+      return service.getChangesSince(userId, null, client);
+    }
+    
+    if (migration?.newColumns.includes(collection) && lastPulledAt !== null) {
+      const all = await service.getChangesSince(userId, null, client);
+      const incremental = await service.getChangesSince(userId, lastPulledAt, client);
+      return {
+        created: all.created.filter(row => Number(row.created_seq) > lastPulledAt),
+        updated: all.created.filter(row => Number(row.created_seq) <= lastPulledAt),
+        deleted: incremental.deleted,
+      };
+    }
+    
+    return service.getChangesSince(userId, lastPulledAt, client);
+  },
+
+  /**
+   * Pull one page of changes (chunked / resumable pull)
+   * 
+   * The first page (no cursor) snapshots the user's change sequence as `until`;
+   * every page then returns rows with since < change_seq <= until, categories
+   * first, in change_seq order. Rows modified after the snapshot get a higher
+   * change_seq, are skipped here and arrive on the next pull from `timestamp`,
+   * so paging never loses a change. An interrupted sync resumes from the last
+   * cursor the client received.
+   */
+  async pullChangesPage(
+    userId: string,
+    lastPulledAt: number | null,
+    options: { limit: number; cursor?: string | null }
+  ): Promise<PaginatedPullResponse> {
+    const limit = Math.min(Math.max(1, Math.floor(options.limit)), MAX_PULL_PAGE_SIZE);
+    const client = await getClient();
+    
+    const changes = emptySyncChanges();
+    let next: PullCursor | null = null;
+    let until: number;
+    
+    try {
+      await client.query('BEGIN ISOLATION LEVEL REPEATABLE READ READ ONLY');
+      
+      let position: PullCursor;
+      if (options.cursor) {
+        position = decodePullCursor(options.cursor);
+        // A purge may have run since the first page
+        await readSyncCursor(client, userId, position.since);
+      } else {
+        position = {
+          since: lastPulledAt,
+          until: await readSyncCursor(client, userId, lastPulledAt),
+          collection: PAGED_COLLECTIONS[0],
+          afterSeq: lastPulledAt ?? 0,
+        };
+      }
+      until = position.until;
+      const since = position.since;
+      
+      let remaining = limit;
+      for (let i = PAGED_COLLECTIONS.indexOf(position.collection); i < PAGED_COLLECTIONS.length; i++) {
+        const collection = PAGED_COLLECTIONS[i];
+        const afterSeq = collection === position.collection ? position.afterSeq : (since ?? 0);
+        
+        if (remaining === 0) {
+          // Page is full; the next one starts at this collection
+          next = { since, until, collection, afterSeq };
+          break;
+        }
+        
+        // Fetch one extra row to know whether this collection has more
+        const rows = await getCollectionService(collection).getChangesPage(
+          userId,
+          { since, until, afterSeq, limit: remaining + 1 },
+          client
+        );
+        const pageRows = rows.slice(0, remaining);
+        
+        for (const row of pageRows) {
+          if (row.is_deleted) {
+            changes[collection].deleted.push(row.id);
+          } else if (since === null || Number(row.created_seq) > since) {
+            changes[collection].created.push(transformToLocal(collection, row));
+          } else {
+            changes[collection].updated.push(transformToLocal(collection, row));
+          }
+        }
+        
+        remaining -= pageRows.length;
+        
+        if (rows.length > pageRows.length) {
+          next = {
+            since,
+            until,
+            collection,
+            afterSeq: Number(pageRows[pageRows.length - 1].change_seq),
+          };
+          break;
+        }
+      }
+      
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
     
     return {
-      changes: {
-        categories: {
-          created: categoryChanges.created.map(transformCategoryToLocal),
-          updated: categoryChanges.updated.map(transformCategoryToLocal),
-          deleted: categoryChanges.deleted,
-        },
-        todos: {
-          created: todoChanges.created.map(transformTodoToLocal),
-          updated: todoChanges.updated.map(transformTodoToLocal),
-          deleted: todoChanges.deleted,
-        },
-      },
-      timestamp,
+      changes,
+      timestamp: until,
+      clock: clockService.now(),
+      hasMore: next !== null,
+      cursor: next ? encodePullCursor(next) : null,
     };
   },
 
   /**
-   * Push changes with LWW conflict resolution
+   * Push changes with field-level merge (per-field LWW)
    * Transforms LOCAL column names from client to REMOTE column names for PostgreSQL
    */
-  async pushChanges(userId: string, request: PushRequest): Promise<{
-    ok: boolean;
-    conflicts: ConflictResolution[];
-  }> {
+  async pushChanges(userId: string, request: PushRequest, context: Omit<PushContext, 'lastPulledAt'> = {}): Promise<PushResult> {
+    const pushContext: PushContext = {
+      ...context,
+      lastPulledAt: request.lastPulledAt ?? null,
+      deleting: Object.fromEntries(
+        SYNC_COLLECTION_NAMES.map(collection => [collection, request.changes[collection].deleted.filter(isUuid)])
+      ),
+    };
+    if (request.clock) {
+      clockService.receive(request.clock);
+    }
     const client = await getClient();
-    const conflicts: ConflictResolution[] = [];
+    const result: PushResult = {
+      ok: true,
+      conflicts: [],
+      merged: emptyMerged(),
+      rejected: [],
+    };
     
     try {
       await client.query('BEGIN');
       
-      // Process categories (with field mapping)
-      await this.processCategoryChanges(
-        client,
-        userId,
-        request.changes.categories,
-        conflicts
-      );
+      if (request.batchId) {
+        const replay = await this.claimPushBatch(client, userId, request);
+        if (replay) {
+          await client.query('ROLLBACK');
+          console.log(`[Sync] Push batch ${request.batchId} replayed`);
+          return { ...replay, replayed: true };
+        }
+      }
       
-      // Process todos (with field mapping)
-      await this.processTodoChanges(
-        client,
-        userId,
-        request.changes.todos,
-        conflicts
-      );
+      // Process each collection (with field mapping), parents first
+      for (const collection of SYNC_COLLECTION_NAMES) {
+        await this.processCollectionChanges(
+          client,
+          collection,
+          userId,
+          request.changes[collection],
+          result,
+          pushContext
+        );
+      }
+      
+      if (result.rejected.length > 0) {
+        if (request.strict) {
+          // Strict mode: nothing is applied (nor recorded under the batch id)
+          await client.query('ROLLBACK');
+          console.log(`[Sync] Strict push rejected: ${result.rejected.length} invalid records`);
+          return { ok: false, conflicts: [], merged: emptyMerged(), rejected: result.rejected, clock: clockService.now() };
+        }
+        
+        const rejectedIds: PushResult['experimentalRejectedIds'] = {};
+        for (const rejection of result.rejected) {
+          if (rejection.recordId) {
+            (rejectedIds[rejection.collection] ||= []).push(rejection.recordId);
+          }
+        }
+        result.experimentalRejectedIds = rejectedIds;
+        console.log(`[Sync] Push rejected ${result.rejected.length} invalid records`);
+      }
+      
+      result.clock = clockService.now();
+      
+      if (request.batchId) {
+        await client.query(
+          'UPDATE sync_push_batches SET response = $1 WHERE user_id = $2 AND batch_id = $3',
+          [result, userId, request.batchId]
+        );
+      }
       
       await client.query('COMMIT');
       
-      console.log(`[Sync] Push completed. Conflicts: ${conflicts.length}`);
-      if (conflicts.length > 0) {
-        console.log('[Sync] Conflict resolutions:', JSON.stringify(conflicts, null, 2));
+      // Let the user's other devices know (after commit, so they can pull it)
+      const pushed = SYNC_COLLECTION_NAMES.some(collection => {
+        const { created, updated, deleted } = request.changes[collection];
+        return created.length + updated.length + deleted.length > 0;
+      });
+      if (pushed) {
+        await syncEventService.publish(userId, context.sessionId ?? null);
       }
       
-      return { ok: true, conflicts };
+      console.log(`[Sync] Push completed. Conflicts: ${result.conflicts.length}`);
+      if (result.conflicts.length > 0 && result.conflicts.length <= LOGGED_RESOLUTIONS_MAX) {
+        console.log('[Sync] Conflict resolutions:', JSON.stringify(result.conflicts, null, 2));
+      }
+      
+      return result;
     } catch (error) {
       await client.query('ROLLBACK');
       console.error('[Sync] Push failed:', error);
@@ -155,262 +628,698 @@ export const syncService = {
   },
 
   /**
-   * Process category changes with LWW
-   * Maps LOCAL field names to REMOTE column names:
-   * - title -> name
-   * - created_at -> created_timestamp
-   * - updated_at -> modified_at
+   * Claim a push batch id inside the push transaction
+   * Returns the stored response if the batch was already applied (replay),
+   * or null after recording the new batch. A concurrent push with the same id
+   * blocks on the primary key until the first one commits or rolls back.
+   */
+  async claimPushBatch(client: any, userId: string, request: PushRequest): Promise<PushResult | null> {
+    const now = Date.now();
+    const requestHash = crypto.createHash('sha256').update(JSON.stringify(request.changes)).digest('hex');
+    
+    // Forget batches past the retention window
+    await client.query(
+      'DELETE FROM sync_push_batches WHERE user_id = $1 AND created_timestamp < $2',
+      [userId, now - syncConfig.pushIdempotencyRetentionMs]
+    );
+    
+    const inserted = await client.query(
+      `INSERT INTO sync_push_batches (user_id, batch_id, request_hash, created_timestamp)
+       VALUES ($1, $2, $3, $4)
+       ON CONFLICT (user_id, batch_id) DO NOTHING
+       RETURNING batch_id`,
+      [userId, request.batchId, requestHash, now]
+    );
+    if (inserted.rows.length > 0) {
+      return null;
+    }
+    
+    const existing = await client.query(
+      'SELECT request_hash, response FROM sync_push_batches WHERE user_id = $1 AND batch_id = $2',
+      [userId, request.batchId]
+    );
+    const batch = existing.rows[0];
+    
+    if (batch.request_hash !== requestHash) {
+      throw new Error('Idempotency key was already used for a different push');
+    }
+    // Batches stored before validation existed have no `rejected` list
+    return { rejected: [], ...batch.response };
+  },
+
+  /**
+   * Process one collection's changes with set-based reads and writes
+   * 
+   * Records are validated, their server rows loaded with one query, resolved
+   * in memory (field-level merge for existing rows, LWW for deletes) and
+   * written with multi-row statements, so a large offline backlog costs a
+   * handful of round-trips rather than a few per record.
+   * Maps LOCAL field names to REMOTE column names.
    */
-  async processCategoryChanges(
+  async processCollectionChanges(
     client: any,
+    collection: SyncCollection,
     userId: string,
-    changes: SyncChanges['categories'],
-    conflicts: ConflictResolution[]
+    changes: CollectionChanges,
+    result: PushResult,
+    context: PushContext
   ): Promise<void> {
-    // Process created categories
-    for (const record of changes.created) {
-      const existing = await client.query(
-        'SELECT * FROM categories WHERE id = $1 AND user_id = $2',
-        [record.id, userId]
-      );
+    const service = getCollectionService(collection);
+    const conflicts: RecordConflictInput[] = [];
+    
+    // Validate (reference checks take one query per referenced collection), then order by clock
+    const pushed = [
+      ...changes.created.map(record => ({ record, mode: 'create' as const })),
+      ...changes.updated.map(record => ({ record, mode: 'update' as const })),
+    ];
+    const errors = await recordValidationService.validateMany(collection, pushed, userId, client);
+    const valid: PushedRecord[] = [];
+    pushed.forEach(({ record, mode }, i) => {
+      if (errors[i].length > 0) {
+        const recordId = typeof record?.id === 'string' ? record.id : null;
+        result.rejected.push({ collection, recordId, reasons: errors[i] });
+        return;
+      }
       
-      if (existing.rows.length > 0) {
-        // Record exists - check LWW
-        const serverRecord = existing.rows[0];
-        const resolution = this.resolveLWW(
-          'categories',
-          record.id,
-          record.updated_at,  // Client sends 'updated_at'
-          serverRecord.modified_at  // Server uses 'modified_at'
-        );
-        conflicts.push(resolution);
-        
-        if (resolution.winner === 'local') {
-          // Client wins - update server record
-          // Map: title -> name, created_at -> created_timestamp, updated_at -> modified_at
-          await client.query(
-            `UPDATE categories SET name = $1, created_timestamp = $2, modified_at = $3, is_deleted = FALSE
-             WHERE id = $4 AND user_id = $5`,
-            [record.title, record.created_at, record.updated_at, record.id, userId]
-          );
-        }
+      const stamped = stampRecord(record);
+      if (!stamped) {
+        const field = record._clock !== undefined ? '_clock' : 'updated_at';
+        result.rejected.push({
+          collection,
+          recordId: record.id,
+          reasons: [{ field, message: `${field} is too far ahead of the server clock` }],
+        });
+        return;
+      }
+      valid.push({ ...stamped, mode });
+    });
+    
+    const deletions: PushedDeletion[] = [];
+    for (const id of new Set(changes.deleted)) {
+      const deletion = this.stampDeletion(id, changes.deletedAt?.[id]);
+      if ('reasons' in deletion) {
+        result.rejected.push({ collection, recordId: typeof id === 'string' ? id : null, reasons: deletion.reasons });
       } else {
-        // New record - insert with field mapping
-        await client.query(
-          `INSERT INTO categories (id, user_id, name, created_timestamp, modified_at, is_deleted)
-           VALUES ($1, $2, $3, $4, $5, FALSE)`,
-          [record.id, userId, record.title, record.created_at, record.updated_at]
-        );
+        deletions.push(deletion);
       }
     }
     
-    // Process updated categories
-    for (const record of changes.updated) {
-      const existing = await client.query(
-        'SELECT * FROM categories WHERE id = $1 AND user_id = $2',
-        [record.id, userId]
-      );
+    // Load the server rows of every pushed id at once
+    const ids = [...new Set([...valid.map(entry => rowKey(entry.record.id)), ...deletions.map(({ id }) => rowKey(id))])];
+    const rows = new Map<string, any>();
+    for (const row of await service.getByIds(ids, userId, client)) {
+      rows.set(row.id, row);
+    }
+    
+    // A statement can only write a row once, so records repeating an id wait for a later round
+    let pending = valid;
+    while (pending.length > 0) {
+      const round: PushedRecord[] = [];
+      const later: PushedRecord[] = [];
+      const seen = new Set<string>();
+      for (const entry of pending) {
+        const key = rowKey(entry.record.id);
+        (seen.has(key) ? later : round).push(entry);
+        seen.add(key);
+      }
       
-      if (existing.rows.length > 0) {
-        const serverRecord = existing.rows[0];
-        const resolution = this.resolveLWW(
-          'categories',
-          record.id,
-          record.updated_at,
-          serverRecord.modified_at
-        );
-        conflicts.push(resolution);
-        
-        if (resolution.winner === 'local') {
-          await client.query(
-            `UPDATE categories SET name = $1, modified_at = $2
-             WHERE id = $3 AND user_id = $4`,
-            [record.title, record.updated_at, record.id, userId]
-          );
-        }
+      await this.applyRecords(client, collection, userId, round, rows, result, conflicts, context);
+      pending = later;
+    }
+    
+    await this.applyDeletes(client, collection, userId, deletions, rows, result, conflicts, context);
+    
+    if (conflicts.length > 0) {
+      await conflictService.recordMany(userId, conflicts, client);
+    }
+  },
+
+  /**
+   * Insert new records and merge the others into their server rows
+   * Ids must be unique within `entries`. `rows` (server rows by id) is updated
+   * with the written rows; conflicts to log are added to `conflicts`.
+   */
+  async applyRecords(
+    client: any,
+    collection: SyncCollection,
+    userId: string,
+    entries: PushedRecord[],
+    rows: Map<string, any>,
+    result: PushResult,
+    conflicts: RecordConflictInput[],
+    context: PushContext
+  ): Promise<void> {
+    const service = getCollectionService(collection);
+    const inserts: { record: any; clock: Hlc }[] = [];
+    const merges: { record: any; outcome: MergeOutcome }[] = [];
+    
+    for (const { record, mode, clock } of entries) {
+      const existing = rows.get(rowKey(record.id));
+      
+      if (existing) {
+        // Records that exist (including created ones re-pushed after a lost
+        // response) are merged field by field; an edit to a deleted record
+        // brings it back if the delete/edit policy lets it, else is discarded
+        const revive = existing.is_deleted && this.editBeatsDelete(existing, clock, context);
+        merges.push({
+          record,
+          outcome: existing.is_deleted && !revive
+            ? this.editLostToDelete(collection, existing, record, clock, context)
+            : this.mergeRecord(collection, existing, record, clock, revive, context),
+        });
+      } else if (mode === 'create') {
+        inserts.push({ record, clock });
       }
+      // Updates to records the server does not have are ignored
     }
     
-    // Process deleted categories
-    for (const id of changes.deleted) {
-      const existing = await client.query(
-        'SELECT * FROM categories WHERE id = $1 AND user_id = $2',
-        [id, userId]
-      );
+    const inserted = await writeIsolated(client, inserts, batch =>
+      service.createMany(
+        userId,
+        batch.map(({ record, clock }) => ({ ...fieldMappingService.toRemote(collection, record), clock })),
+        client
+      )
+    );
+    for (const row of inserted.rows) {
+      rows.set(row.id, row);
+    }
+    for (const insert of inserts) {
+      if (!rows.has(rowKey(insert.record.id))) {
+        // Not inserted: the write failed, or the id belongs to another account
+        const error = inserted.failed.get(insert) ?? 'id is already in use';
+        result.rejected.push(couldNotSave(collection, insert.record.id, error));
+      }
+    }
+    
+    const writes = merges.filter(merge => merge.outcome.write);
+    const updated = await writeIsolated(client, writes, batch =>
+      service.updateMany(userId, batch.map(merge => merge.outcome.write!), client)
+    );
+    for (const row of updated.rows) {
+      rows.set(row.id, row);
+    }
+    
+    for (const merge of merges) {
+      const error = updated.failed.get(merge);
+      if (error !== undefined) {
+        result.rejected.push(couldNotSave(collection, merge.record.id, error));
+        continue;
+      }
       
-      if (existing.rows.length > 0) {
-        const serverRecord = existing.rows[0];
-        const now = Date.now();
-        
-        const resolution = this.resolveLWW('categories', id, now, serverRecord.modified_at);
-        conflicts.push(resolution);
-        
-        if (resolution.winner === 'local') {
-          await client.query(
-            `UPDATE categories SET is_deleted = TRUE, modified_at = $1
-             WHERE id = $2 AND user_id = $3`,
-            [now, id, userId]
-          );
-        }
+      result.conflicts.push(merge.outcome.resolution);
+      if (merge.outcome.conflict) {
+        conflicts.push(merge.outcome.conflict);
+      }
+      if (merge.outcome.serverKept) {
+        result.merged[collection].push(transformToLocal(collection, rows.get(rowKey(merge.record.id))));
       }
     }
   },
 
   /**
-   * Process todo changes with LWW
-   * Maps LOCAL field names to REMOTE column names:
-   * - title -> name
-   * - description -> details
-   * - is_completed -> done
-   * - created_at -> created_timestamp
-   * - updated_at -> modified_at
+   * Apply pushed deletions, resolved by the delete/edit policy (see resolveDelete)
+   * and the onDelete rules of records referencing them (see referenceService).
+   * Ids the server does not have are ignored. Records kept because the delete
+   * lost are returned in result.merged, so the deleting device gets them back.
    */
-  async processTodoChanges(
+  async applyDeletes(
     client: any,
+    collection: SyncCollection,
     userId: string,
-    changes: SyncChanges['todos'],
-    conflicts: ConflictResolution[]
+    deletions: PushedDeletion[],
+    rows: Map<string, any>,
+    result: PushResult,
+    conflicts: RecordConflictInput[],
+    context: PushContext
   ): Promise<void> {
-    // Process created todos
-    for (const record of changes.created) {
-      const existing = await client.query(
-        'SELECT * FROM todos WHERE id = $1 AND user_id = $2',
-        [record.id, userId]
-      );
+    const service = getCollectionService(collection);
+    const outcomes: {
+      deletion: RowDeletion;
+      serverRecord: any;
+      resolution: ConflictResolution;
+      conflict: RecordConflictInput | null;
+    }[] = [];
+    
+    for (const { id, deletedAt, clock } of deletions) {
+      const serverRecord = rows.get(rowKey(id));
+      if (serverRecord) {
+        const resolution = this.resolveDelete(collection, { id, deletedAt, clock }, serverRecord, context);
+        outcomes.push({
+          deletion: { id: serverRecord.id, modifiedAt: deletedAt, clock: clockService.max(rowClock(serverRecord), clock) },
+          serverRecord,
+          resolution,
+          conflict: this.deleteConflict(serverRecord, resolution, context),
+        });
+      }
+    }
+    
+    // Deletes blocked by a restrict rule lose like a delete losing to an edit
+    const blocked = await referenceService.findBlocked(
+      collection,
+      userId,
+      outcomes.filter(outcome => outcome.resolution.winner === 'local').map(outcome => outcome.serverRecord.id),
+      context.deleting,
+      client
+    );
+    for (const outcome of outcomes) {
+      const reason = blocked.get(outcome.serverRecord.id);
+      if (reason) {
+        outcome.resolution = { ...outcome.resolution, winner: 'remote', resurrected: true, reason };
+        outcome.conflict = this.deleteConflict(outcome.serverRecord, outcome.resolution, context);
+      }
+    }
+    
+    const deletes = outcomes.filter(outcome => outcome.resolution.winner === 'local');
+    const deleted = await writeIsolated(client, deletes, batch =>
+      service.deleteMany(userId, batch.map(outcome => outcome.deletion), client)
+    );
+    
+    for (const outcome of outcomes) {
+      const error = deleted.failed.get(outcome);
+      if (error !== undefined) {
+        result.rejected.push(couldNotSave(collection, outcome.resolution.recordId, error));
+        continue;
+      }
       
-      if (existing.rows.length > 0) {
-        const serverRecord = existing.rows[0];
-        const resolution = this.resolveLWW(
-          'todos',
-          record.id,
-          record.updated_at,
-          serverRecord.modified_at
-        );
-        conflicts.push(resolution);
-        
-        if (resolution.winner === 'local') {
-          // Map: title->name, description->details, is_completed->done
-          await client.query(
-            `UPDATE todos SET name = $1, details = $2, done = $3, 
-             category_id = $4, created_timestamp = $5, modified_at = $6, is_deleted = FALSE
-             WHERE id = $7 AND user_id = $8`,
-            [
-              record.title,
-              record.description,
-              record.is_completed,
-              record.category_id,
-              record.created_at,
-              record.updated_at,
-              record.id,
-              userId,
-            ]
-          );
-        }
-      } else {
-        // Insert with field mapping
-        await client.query(
-          `INSERT INTO todos (id, user_id, name, details, done, category_id, created_timestamp, modified_at, is_deleted)
-           VALUES ($1, $2, $3, $4, $5, $6, $7, $8, FALSE)`,
-          [
-            record.id,
-            userId,
-            record.title,  // Local 'title' -> Remote 'name'
-            record.description || null,  // Local 'description' -> Remote 'details'
-            record.is_completed || false,  // Local 'is_completed' -> Remote 'done'
-            record.category_id || null,
-            record.created_at,  // Local 'created_at' -> Remote 'created_timestamp'
-            record.updated_at,  // Local 'updated_at' -> Remote 'modified_at'
-          ]
-        );
+      result.conflicts.push(outcome.resolution);
+      if (outcome.conflict) {
+        conflicts.push(outcome.conflict);
       }
+      if (outcome.resolution.resurrected) {
+        result.merged[collection].push(transformToLocal(collection, outcome.serverRecord));
+      }
+    }
+  },
+
+  /**
+   * Validate and order a pushed deletion
+   * The client's deletion time is checked against the server clock like a
+   * record's updated_at; without one the delete happens now, on the server clock.
+   */
+  stampDeletion(id: unknown, time: number | DeletionTime | undefined): PushedDeletion | { reasons: FieldError[] } {
+    if (!isUuid(id)) {
+      return { reasons: [{ field: 'id', message: 'id must be a UUID' }] };
+    }
+    if (time === undefined) {
+      return { id, deletedAt: Date.now(), clock: clockService.now() };
     }
     
-    // Process updated todos
-    for (const record of changes.updated) {
-      const existing = await client.query(
-        'SELECT * FROM todos WHERE id = $1 AND user_id = $2',
-        [record.id, userId]
-      );
+    const { deleted_at: deletedAt, _clock: clock } = typeof time === 'number' ? { deleted_at: time, _clock: undefined } : time ?? {};
+    if (typeof deletedAt !== 'number' || !Number.isFinite(deletedAt)) {
+      return { reasons: [{ field: 'deleted_at', message: 'deleted_at must be a number' }] };
+    }
+    if (clock !== undefined && !clockService.isValid(clock)) {
+      return { reasons: [{ field: '_clock', message: '_clock must be a hybrid logical clock timestamp' }] };
+    }
+    
+    const stamped = stampRecord({ id, updated_at: deletedAt, _clock: clock });
+    if (!stamped) {
+      const field = clock !== undefined ? '_clock' : 'deleted_at';
+      return { reasons: [{ field, message: `${field} is too far ahead of the server clock` }] };
+    }
+    return { id, deletedAt: Number(stamped.record.updated_at), clock: stamped.clock };
+  },
+
+  /**
+   * Decide a pushed deletion against the server row (syncConfig.deleteEditPolicy)
+   * - lww: the later clock wins (the delete's, or the row's last write)
+   * - delete-wins: the delete always applies
+   * - edit-wins: a row edited since the deleting device last pulled is kept
+   * A delete that loses to an edit is marked `resurrected`.
+   */
+  resolveDelete(
+    collection: SyncCollection,
+    deletion: PushedDeletion,
+    serverRecord: any,
+    context: PushContext
+  ): ConflictResolution {
+    const local: VersionStamp = { updatedAt: deletion.deletedAt, clock: deletion.clock };
+    const remote: VersionStamp = { updatedAt: Number(serverRecord.modified_at), clock: rowClock(serverRecord) };
+    const policy = syncConfig.deleteEditPolicy;
+    
+    if (serverRecord.is_deleted) {
+      return { ...this.resolveLWW(collection, deletion.id, local, remote), winner: 'remote', reason: 'Already deleted' };
+    }
+    
+    if (policy === 'lww') {
+      const resolution = this.resolveLWW(collection, deletion.id, local, remote);
+      return resolution.winner === 'remote'
+        ? { ...resolution, resurrected: true, reason: `Edit newer than delete: ${resolution.reason}` }
+        : resolution;
+    }
+    
+    const resolution = this.resolveLWW(collection, deletion.id, local, remote);
+    if (policy === 'edit-wins' && isStale(serverRecord, context.lastPulledAt)) {
+      return { ...resolution, winner: 'remote', resurrected: true, reason: 'Edited since the deleting device last pulled (edit wins)' };
+    }
+    return {
+      ...resolution,
+      winner: 'local',
+      reason: policy === 'delete-wins' ? 'Delete wins' : 'Not edited since the deleting device last pulled',
+    };
+  },
+
+  /**
+   * Whether a pushed edit brings back a deleted server row (syncConfig.deleteEditPolicy)
+   */
+  editBeatsDelete(serverRecord: any, clock: Hlc, context: PushContext): boolean {
+    switch (syncConfig.deleteEditPolicy) {
+      case 'delete-wins':
+        return false;
+      case 'edit-wins':
+        return true;
+      default:
+        return clock > rowClock(serverRecord);
+    }
+  },
+
+  /**
+   * Outcome of a pushed edit to a deleted server row that stays deleted (the
+   * delete won under syncConfig.deleteEditPolicy). Nothing is written; the
+   * edited fields are logged as the losing version, so re-applying the
+   * conflict restores the record with them.
+   */
+  editLostToDelete(
+    collection: SyncCollection,
+    serverRecord: any,
+    record: any,
+    clock: Hlc,
+    context: PushContext
+  ): MergeOutcome {
+    const local: VersionStamp = { updatedAt: Number(record.updated_at), clock };
+    const remote: VersionStamp = { updatedAt: Number(serverRecord.modified_at), clock: rowClock(serverRecord) };
+    const resolution: ConflictResolution = {
+      ...this.resolveLWW(collection, record.id, local, remote),
+      winner: 'remote',
+      reason: syncConfig.deleteEditPolicy === 'delete-wins' ? 'Record deleted (delete wins)' : 'Delete newer than edit',
+    };
+    
+    const losing: Record<string, any> = {};
+    for (const field of getChangedFields(collection, record)) {
+      losing[field] = record[field];
+    }
+    
+    const conflict: RecordConflictInput | null = Object.keys(losing).length === 0 ? null : {
+      collection,
+      record_id: record.id,
+      winner: 'remote',
+      reason: `Edit: ${resolution.reason}`,
+      local_updated_at: local.updatedAt,
+      remote_updated_at: remote.updatedAt,
+      fields: null,
+      local_payload: record,
+      remote_payload: { id: serverRecord.id, _deleted: true },
+      losing_payload: { ...losing, _deleted: false },
+      session_id: context.sessionId || null,
+      request_id: context.requestId || null,
+    };
+    
+    return { resolution, write: null, conflict, serverKept: false };
+  },
+
+  /**
+   * Field-level merge of a pushed record into its existing server row
+   * 
+   * Each field the client changed is ordered against that column's own last
+   * write by hybrid logical clock (field_clocks, falling back to the wall-clock
+   * field_timestamps / modified_at for older rows), so edits to
+   * different fields on different devices are both kept and LWW only decides
+   * between edits to the same field. Records where the server kept any field
+   * are reported in result.merged.
+   * 
+   * revive: un-delete the server row if the client wins any field (reported
+   * as `resurrected`, with the discarded delete logged)
+   * 
+   * Values that get discarded (fields the server kept, or server values the
+   * client overwrote without having pulled them) are returned as a conflict
+   * to log in sync_conflicts. Nothing is written here.
+   */
+  mergeRecord(
+    collection: SyncCollection,
+    serverRecord: any,
+    record: any,
+    clock: Hlc,
+    revive: boolean,
+    context: PushContext
+  ): MergeOutcome {
+    const fieldMap = MERGE_FIELDS[collection];
+    const localUpdatedAt = Number(record.updated_at);
+    const remoteUpdatedAt = Number(serverRecord.modified_at);
+    const serverFieldTimestamps: Record<string, number> = serverRecord.field_timestamps || {};
+    
+    const fields: FieldResolution[] = [];
+    const updates: Record<string, any> = {};
+    const fieldTimestamps: Record<string, number> = { ...serverFieldTimestamps };
+    const fieldClocks: Record<string, Hlc> = { ...serverRecord.field_clocks };
+    
+    for (const field of getChangedFields(collection, record)) {
+      const column = fieldMap[field];
+      const fieldUpdatedAt = Number(serverFieldTimestamps[column] ?? remoteUpdatedAt);
+      const remoteClock = fieldClock(serverRecord, column);
+      // Server wins ties (server authority), as in resolveLWW
+      const winner = clock > remoteClock ? 'local' : 'remote';
       
-      if (existing.rows.length > 0) {
-        const serverRecord = existing.rows[0];
-        const resolution = this.resolveLWW(
-          'todos',
-          record.id,
-          record.updated_at,
-          serverRecord.modified_at
-        );
-        conflicts.push(resolution);
-        
-        if (resolution.winner === 'local') {
-          await client.query(
-            `UPDATE todos SET name = $1, details = $2, done = $3,
-             category_id = $4, modified_at = $5
-             WHERE id = $6 AND user_id = $7`,
-            [
-              record.title,
-              record.description,
-              record.is_completed,
-              record.category_id,
-              record.updated_at,
-              record.id,
-              userId,
-            ]
-          );
-        }
+      fields.push({ field, winner, localUpdatedAt, remoteUpdatedAt: fieldUpdatedAt, localClock: clock, remoteClock });
+      if (winner === 'local') {
+        updates[column] = record[field];
+        fieldTimestamps[column] = localUpdatedAt;
+        fieldClocks[column] = clock;
       }
     }
     
-    // Process deleted todos
-    for (const id of changes.deleted) {
+    const localFields = fields.filter(f => f.winner === 'local').map(f => f.field);
+    const remoteFields = fields.filter(f => f.winner === 'remote').map(f => f.field);
+    const winner = remoteFields.length === 0 && localFields.length > 0
+      ? 'local'
+      : localFields.length === 0 ? 'remote' : 'merged';
+    
+    const resolution: ConflictResolution = {
+      recordId: record.id,
+      collection,
+      winner,
+      localUpdatedAt,
+      remoteUpdatedAt,
+      localClock: clock,
+      remoteClock: rowClock(serverRecord),
+      reason: fields.length === 0
+        ? 'No mergeable fields changed'
+        : winner === 'merged'
+          ? `Merged: local won [${localFields.join(', ')}], remote won [${remoteFields.join(', ')}]`
+          : winner === 'local'
+            ? `Local won all changed fields [${localFields.join(', ')}]`
+            : `Remote won all changed fields [${remoteFields.join(', ')}]`,
+      fields,
+    };
+    const resurrected = revive && localFields.length > 0;
+    if (resurrected) {
+      resolution.resurrected = true;
+      resolution.reason = `Edit newer than delete, record restored. ${resolution.reason}`;
+    }
+    
+    // Collect discarded values that differ from what was kept
+    const serverLocal: any = transformToLocal(collection, serverRecord);
+    const stale = isStale(serverRecord, context.lastPulledAt);
+    const losing: Record<string, any> = {};
+    for (const field of fields) {
+      if (field.winner === 'remote' && record[field.field] !== serverLocal[field.field]) {
+        losing[field.field] = record[field.field];
+      } else if (field.winner === 'local' && stale && record[field.field] !== serverLocal[field.field]) {
+        losing[field.field] = serverLocal[field.field];
+      }
+    }
+    if (resurrected) {
+      losing._deleted = true;
+    }
+    
+    // Only logged when something was discarded (see GET /api/sync/conflicts)
+    const conflict: RecordConflictInput | null = Object.keys(losing).length === 0 ? null : {
+      collection,
+      record_id: record.id,
+      winner,
+      reason: resolution.reason,
+      local_updated_at: localUpdatedAt,
+      remote_updated_at: remoteUpdatedAt,
+      fields,
+      local_payload: record,
+      remote_payload: serverLocal,
+      losing_payload: losing,
+      session_id: context.sessionId || null,
+      request_id: context.requestId || null,
+    };
+    
+    const write: RowMerge | null = localFields.length === 0 ? null : {
+      id: serverRecord.id,
+      values: updates,
+      fieldTimestamps,
+      fieldClocks,
+      clock: clockService.max(rowClock(serverRecord), clock),
+      modifiedAt: localUpdatedAt,
+      revive,
+    };
+    
+    return { resolution, write, conflict, serverKept: remoteFields.length > 0 };
+  },
+
+  /**
+   * Conflict to log for a pushed deletion that discarded something:
+   * - the delete lost (server version newer), or
+   * - the delete won over a server version the client had never pulled
+   * Returns null when nothing was discarded.
+   */
+  deleteConflict(
+    serverRecord: any,
+    resolution: ConflictResolution,
+    context: PushContext
+  ): RecordConflictInput | null {
+    if (serverRecord.is_deleted) {
+      return null;
+    }
+    
+    const collection = resolution.collection as SyncCollection;
+    const serverLocal: any = transformToLocal(collection, serverRecord);
+    let losing: Record<string, any>;
+    
+    if (resolution.winner === 'remote') {
+      losing = { _deleted: true };
+    } else if (isStale(serverRecord, context.lastPulledAt)) {
+      const { id, created_at, updated_at, ...values } = serverLocal;
+      losing = { ...values, _deleted: false };
+    } else {
+      return null;
+    }
+    
+    return {
+      collection,
+      record_id: serverRecord.id,
+      winner: resolution.winner,
+      reason: `Delete: ${resolution.reason}`,
+      local_updated_at: resolution.localUpdatedAt,
+      remote_updated_at: resolution.remoteUpdatedAt,
+      fields: null,
+      local_payload: { id: serverRecord.id, _deleted: true },
+      remote_payload: serverLocal,
+      losing_payload: losing,
+      session_id: context.sessionId || null,
+      request_id: context.requestId || null,
+    };
+  },
+
+  /**
+   * Re-apply the losing version of a logged conflict as a new write
+   * The discarded values go through the push path: they are validated like a
+   * pushed update and merged with the current time and clock, so they win
+   * against the current state and sync to every device on the next pull.
+   * `_deleted: false` restores a deleted record; `_deleted: true` deletes it,
+   * subject to the onDelete rules of records referencing it.
+   * Returns the record (LOCAL field names), the validation errors if the
+   * values are no longer valid, or null if the conflict is not found.
+   */
+  async reapplyConflict(userId: string, conflictId: string): Promise<{ record: any } | { reasons: FieldError[] } | null> {
+    const client = await getClient();
+    
+    try {
+      await client.query('BEGIN');
+      
+      const conflict = await conflictService.getById(conflictId, userId, client);
+      if (!conflict || !isSyncCollection(conflict.collection)) {
+        await client.query('ROLLBACK');
+        return null;
+      }
+      if (!(await conflictService.markReapplied(conflict.id, client))) {
+        throw new Error('Conflict already re-applied');
+      }
+      
+      const collection = conflict.collection;
+      const { table, ownerColumn } = getSyncCollection(collection);
+      const service = getCollectionService(collection);
+      const now = Date.now();
+      const clock = clockService.now();
+      
       const existing = await client.query(
-        'SELECT * FROM todos WHERE id = $1 AND user_id = $2',
-        [id, userId]
+        `SELECT * FROM ${table} WHERE id = $1 AND ${ownerColumn} = $2 FOR UPDATE`,
+        [conflict.record_id, userId]
       );
+      if (existing.rows.length === 0) {
+        throw new Error('Record no longer exists');
+      }
+      const serverRecord = existing.rows[0];
       
-      if (existing.rows.length > 0) {
-        const serverRecord = existing.rows[0];
-        const now = Date.now();
-        
-        const resolution = this.resolveLWW('todos', id, now, serverRecord.modified_at);
-        conflicts.push(resolution);
-        
-        if (resolution.winner === 'local') {
-          await client.query(
-            `UPDATE todos SET is_deleted = TRUE, modified_at = $1
-             WHERE id = $2 AND user_id = $3`,
-            [now, id, userId]
-          );
+      const { _deleted: deleting, ...payload } = conflict.losing_payload;
+      const revive = serverRecord.is_deleted && deleting === false;
+      if (serverRecord.is_deleted && !revive) {
+        throw new Error('Record has been deleted');
+      }
+      
+      // Written like a pushed update of the discarded fields
+      const record: Record<string, any> = { id: conflict.record_id, updated_at: now };
+      for (const field of Object.keys(MERGE_FIELDS[collection])) {
+        if (field in payload) {
+          record[field] = payload[field];
+        }
+      }
+      const errors = await recordValidationService.validate(collection, record, 'update', userId, client);
+      if (errors.length > 0) {
+        await client.query('ROLLBACK');
+        return { reasons: errors };
+      }
+      
+      if (deleting === true) {
+        const blocked = await referenceService.findBlocked(collection, userId, [conflict.record_id], {}, client);
+        if (blocked.size > 0) {
+          throw new Error(`Cannot delete: ${[...blocked.values()][0]}`);
         }
       }
+      
+      const { write } = this.mergeRecord(collection, serverRecord, record, clock, revive, { lastPulledAt: null });
+      if (write) {
+        await service.updateMany(userId, [write], client);
+      }
+      if (deleting === true) {
+        await service.deleteMany(userId, [{ id: conflict.record_id, modifiedAt: now, clock: clockService.now() }], client);
+      }
+      
+      const updated = await client.query(`SELECT * FROM ${table} WHERE id = $1`, [conflict.record_id]);
+      
+      await client.query('COMMIT');
+      await syncEventService.publish(userId);
+      
+      console.log(`[Sync] Re-applied conflict ${conflict.id} on ${collection}/${conflict.record_id}`);
+      return { record: transformToLocal(collection, updated.rows[0]) };
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
     }
   },
 
   /**
    * Last-Write-Wins conflict resolution
-   * Compares timestamps and returns which version should win
+   * Compares hybrid logical clocks and returns which version should win
    */
   resolveLWW(
     collection: string,
     recordId: string,
-    localUpdatedAt: number,
-    remoteUpdatedAt: number
+    local: VersionStamp,
+    remote: VersionStamp
   ): ConflictResolution {
-    // Local wins if its timestamp is strictly greater
+    // Local wins if its clock is strictly greater
     // Server wins on tie (server authority)
-    const winner = localUpdatedAt > remoteUpdatedAt ? 'local' : 'remote';
+    const winner = local.clock > remote.clock ? 'local' : 'remote';
     
     return {
       recordId,
       collection,
       winner,
-      localUpdatedAt,
-      remoteUpdatedAt,
+      localUpdatedAt: local.updatedAt,
+      remoteUpdatedAt: remote.updatedAt,
+      localClock: local.clock,
+      remoteClock: remote.clock,
       reason: winner === 'local'
-        ? `Local timestamp (${localUpdatedAt}) > remote (${remoteUpdatedAt})`
-        : localUpdatedAt === remoteUpdatedAt
-          ? `Timestamps equal (${localUpdatedAt}). Server wins by authority.`
-          : `Remote timestamp (${remoteUpdatedAt}) > local (${localUpdatedAt})`,
+        ? `Local clock (${local.clock}) > remote (${remote.clock})`
+        : local.clock === remote.clock
+          ? `Clocks equal (${local.clock}). Server wins by authority.`
+          : `Remote clock (${remote.clock}) > local (${local.clock})`,
     };
   },
 };
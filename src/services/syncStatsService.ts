@@ -0,0 +1,205 @@
+import { query } from '../config/database';
+
+/**
+ * Sync Stats Service
+ *
+ * Per-device (session) counters for pulls and pushes, kept in
+ * sync_device_stats, so stale or failing devices can be spotted: by the user
+ * (their own devices) and by administrators (all users, aggregated).
+ * Syncs made with API keys have no device and are not counted.
+ */
+
+/**
+ * One pull or push, as recorded
+ */
+export interface SyncRun {
+  kind: 'pull' | 'push';
+  durationMs: number;
+  records: number;  // Records pulled / pushed
+  cursor?: number | null;  // Pull only: cursor handed out (completed pulls)
+  conflicts?: number;
+  rejected?: number;
+  error?: string | null;  // Set when the sync failed
+}
+
+/**
+ * A device's stats with its session details (sync_device_stats columns are
+ * null for devices that never synced)
+ */
+export interface DeviceSyncStats {
+  session_id: string;
+  device_name: string | null;
+  platform: string | null;
+  pulls: number | null;
+  pull_errors: number | null;
+  records_pulled: number | null;
+  pull_ms: number | null;
+  pushes: number | null;
+  push_errors: number | null;
+  records_pushed: number | null;
+  push_ms: number | null;
+  conflicts: number | null;
+  rejected: number | null;
+  last_cursor: number | null;
+  last_pull_at: number | null;
+  last_push_at: number | null;
+  last_error: string | null;
+  last_error_at: number | null;
+  behind: number | null;  // Changes made since the device's last pull
+}
+
+export interface StaleDevice {
+  session_id: string;
+  user_id: string;
+  device_name: string | null;
+  platform: string | null;
+  last_synced_at: number | null;  // Last successful pull or push (null: never)
+  last_error: string | null;
+}
+
+/**
+ * All users' devices, aggregated (rates and averages are null without data)
+ */
+export interface SyncOverview {
+  devices: number;  // Active sessions that have synced
+  staleDevices: number;
+  errorRate: { pull: number | null; push: number | null };  // Failed / all attempts
+  averageDurationMs: { pull: number | null; push: number | null };
+  averageRecords: { pull: number | null; push: number | null };  // Per successful pull / push
+  averageBacklog: number | null;  // Changes a device has not pulled yet
+  stale: StaleDevice[];  // Longest unsynced first
+}
+
+// Stale devices listed in the overview
+const STALE_LIST_LIMIT = 100;
+
+const COLUMNS = {
+  pull: { count: 'pulls', errors: 'pull_errors', records: 'records_pulled', ms: 'pull_ms', lastAt: 'last_pull_at' },
+  push: { count: 'pushes', errors: 'push_errors', records: 'records_pushed', ms: 'push_ms', lastAt: 'last_push_at' },
+};
+
+const ratio = (part: number, whole: number): number | null => (whole > 0 ? part / whole : null);
+
+export const syncStatsService = {
+  /**
+   * Record a pull or push for a device
+   * Failures are logged, never thrown: stats must not break a sync.
+   */
+  async record(userId: string, sessionId: string | null | undefined, run: SyncRun): Promise<void> {
+    if (!sessionId) {
+      return;
+    }
+
+    const now = Date.now();
+    const failed = Boolean(run.error);
+    const { count, errors, records, ms, lastAt } = COLUMNS[run.kind];
+
+    try {
+      await query(
+        `INSERT INTO sync_device_stats AS s
+           (session_id, user_id, ${count}, ${errors}, ${records}, ${ms}, conflicts, rejected,
+            last_cursor, ${lastAt}, last_error, last_error_at)
+         VALUES ($1, $2, 1, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+         ON CONFLICT (session_id) DO UPDATE SET
+           ${count} = s.${count} + 1,
+           ${errors} = s.${errors} + EXCLUDED.${errors},
+           ${records} = s.${records} + EXCLUDED.${records},
+           ${ms} = s.${ms} + EXCLUDED.${ms},
+           conflicts = s.conflicts + EXCLUDED.conflicts,
+           rejected = s.rejected + EXCLUDED.rejected,
+           last_cursor = COALESCE(EXCLUDED.last_cursor, s.last_cursor),
+           ${lastAt} = COALESCE(EXCLUDED.${lastAt}, s.${lastAt}),
+           last_error = COALESCE(EXCLUDED.last_error, s.last_error),
+           last_error_at = COALESCE(EXCLUDED.last_error_at, s.last_error_at)`,
+        [
+          sessionId,
+          userId,
+          failed ? 1 : 0,
+          failed ? 0 : run.records,
+          Math.round(run.durationMs),
+          run.conflicts ?? 0,
+          run.rejected ?? 0,
+          failed ? null : run.cursor ?? null,
+          failed ? null : now,
+          failed ? run.error : null,
+          failed ? now : null,
+        ]
+      );
+    } catch (error) {
+      console.error('[SyncStats] Record error:', error instanceof Error ? error.message : error);
+    }
+  },
+
+  /**
+   * Stats of a user's active devices, most recently synced first
+   */
+  async getDevices(userId: string): Promise<DeviceSyncStats[]> {
+    const result = await query(
+      `SELECT s.id AS session_id, s.device_name, s.platform, st.pulls, st.pull_errors, st.records_pulled,
+              st.pull_ms, st.pushes, st.push_errors, st.records_pushed, st.push_ms, st.conflicts,
+              st.rejected, st.last_cursor, st.last_pull_at, st.last_push_at, st.last_error,
+              st.last_error_at, c.last_seq - st.last_cursor AS behind
+       FROM sessions s
+       LEFT JOIN sync_device_stats st ON st.session_id = s.id
+       LEFT JOIN sync_counters c ON c.user_id = s.user_id
+       WHERE s.user_id = $1 AND s.revoked_at IS NULL
+       ORDER BY GREATEST(st.last_pull_at, st.last_push_at) DESC NULLS LAST, s.created_timestamp DESC`,
+      [userId]
+    );
+    return result.rows;
+  },
+
+  /**
+   * Aggregate over every user's active devices
+   * Devices without a successful sync since `staleBefore` (ms) count as stale.
+   */
+  async getOverview(staleBefore: number): Promise<SyncOverview> {
+    const totals = await query(
+      `SELECT COUNT(*)::int AS devices,
+              COUNT(*) FILTER (WHERE COALESCE(GREATEST(st.last_pull_at, st.last_push_at), 0) < $1)::int AS stale_devices,
+              COALESCE(SUM(st.pulls), 0)::float8 AS pulls,
+              COALESCE(SUM(st.pull_errors), 0)::float8 AS pull_errors,
+              COALESCE(SUM(st.records_pulled), 0)::float8 AS records_pulled,
+              COALESCE(SUM(st.pull_ms), 0)::float8 AS pull_ms,
+              COALESCE(SUM(st.pushes), 0)::float8 AS pushes,
+              COALESCE(SUM(st.push_errors), 0)::float8 AS push_errors,
+              COALESCE(SUM(st.records_pushed), 0)::float8 AS records_pushed,
+              COALESCE(SUM(st.push_ms), 0)::float8 AS push_ms,
+              AVG(c.last_seq - st.last_cursor)::float8 AS average_backlog
+       FROM sync_device_stats st
+       JOIN sessions s ON s.id = st.session_id AND s.revoked_at IS NULL
+       LEFT JOIN sync_counters c ON c.user_id = st.user_id`,
+      [staleBefore]
+    );
+    const stale = await query(
+      `SELECT st.session_id, st.user_id, s.device_name, s.platform,
+              GREATEST(st.last_pull_at, st.last_push_at) AS last_synced_at, st.last_error
+       FROM sync_device_stats st
+       JOIN sessions s ON s.id = st.session_id AND s.revoked_at IS NULL
+       WHERE COALESCE(GREATEST(st.last_pull_at, st.last_push_at), 0) < $1
+       ORDER BY last_synced_at NULLS FIRST
+       LIMIT $2`,
+      [staleBefore, STALE_LIST_LIMIT]
+    );
+
+    const row = totals.rows[0];
+    return {
+      devices: row.devices,
+      staleDevices: row.stale_devices,
+      errorRate: {
+        pull: ratio(row.pull_errors, row.pulls),
+        push: ratio(row.push_errors, row.pushes),
+      },
+      averageDurationMs: {
+        pull: ratio(row.pull_ms, row.pulls),
+        push: ratio(row.push_ms, row.pushes),
+      },
+      averageRecords: {
+        pull: ratio(row.records_pulled, row.pulls - row.pull_errors),
+        push: ratio(row.records_pushed, row.pushes - row.push_errors),
+      },
+      averageBacklog: row.average_backlog,
+      stale: stale.rows,
+    };
+  },
+};
@@ -0,0 +1,220 @@
+import crypto from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { Pool, PoolClient } from 'pg';
+import pool, { query, getClient } from '../config/database';
+import { authConfig } from '../config/auth';
+import { sessionService } from './sessionService';
+
+/**
+ * Token Service
+ *
+ * Access tokens are short-lived, HMAC-SHA256 signed JWTs (header.payload.signature)
+ * that are verified without touching the database.
+ *
+ * Refresh tokens are long-lived opaque random strings. Only their SHA-256 hash is
+ * stored server-side, and every refresh rotates the token (old one is revoked).
+ * A refresh token family is one login session: family_id is the session id.
+ */
+
+export interface AccessTokenPayload {
+  sub: string;  // User ID
+  sid: string;  // Session ID
+  iat: number;  // Issued at (seconds since epoch)
+  exp: number;  // Expiry (seconds since epoch)
+}
+
+export interface TokenPair {
+  accessToken: string;
+  refreshToken: string;
+  expiresAt: number;  // Access token expiry in milliseconds (matches other timestamps)
+}
+
+export interface RefreshToken {
+  id: string;
+  user_id: string;
+  family_id: string;
+  token_hash: string;
+  created_timestamp: number;
+  expires_at: number;
+  revoked_at: number | null;
+  replaced_by: string | null;
+}
+
+const base64url = (input: Buffer | string): string =>
+  Buffer.from(input).toString('base64url');
+
+const sign = (data: string): string =>
+  crypto.createHmac('sha256', authConfig.accessTokenSecret).update(data).digest('base64url');
+
+const hashRefreshToken = (token: string): string =>
+  crypto.createHash('sha256').update(token).digest('hex');
+
+const JWT_HEADER = base64url(JSON.stringify({ alg: 'HS256', typ: 'JWT' }));
+
+export const tokenService = {
+  /**
+   * Create a signed access token for a user
+   */
+  createAccessToken(userId: string, sessionId: string): { token: string; expiresAt: number } {
+    const iat = Math.floor(Date.now() / 1000);
+    const payload: AccessTokenPayload = {
+      sub: userId,
+      sid: sessionId,
+      iat,
+      exp: iat + authConfig.accessTokenTtl,
+    };
+
+    const body = `${JWT_HEADER}.${base64url(JSON.stringify(payload))}`;
+    return {
+      token: `${body}.${sign(body)}`,
+      expiresAt: payload.exp * 1000,
+    };
+  },
+
+  /**
+   * Verify an access token's signature and expiry
+   * Throws if the token is malformed, tampered with or expired
+   */
+  verifyAccessToken(token: string): AccessTokenPayload {
+    const parts = token.split('.');
+    if (parts.length !== 3) {
+      throw new Error('Malformed token');
+    }
+
+    const [header, payload, signature] = parts;
+    if (header !== JWT_HEADER) {
+      throw new Error('Unsupported token header');
+    }
+
+    const expected = Buffer.from(sign(`${header}.${payload}`));
+    const actual = Buffer.from(signature);
+    if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+      throw new Error('Invalid token signature');
+    }
+
+    let decoded: AccessTokenPayload;
+    try {
+      decoded = JSON.parse(Buffer.from(payload, 'base64url').toString('utf-8'));
+    } catch {
+      throw new Error('Malformed token');
+    }
+
+    if (typeof decoded.sub !== 'string' || typeof decoded.sid !== 'string' || typeof decoded.exp !== 'number') {
+      throw new Error('Malformed token');
+    }
+
+    if (decoded.exp <= Math.floor(Date.now() / 1000)) {
+      throw new Error('Token expired');
+    }
+
+    return decoded;
+  },
+
+  /**
+   * Issue a new access/refresh token pair for a session
+   */
+  async issueTokens(
+    userId: string,
+    sessionId: string,
+    db: Pool | PoolClient = pool
+  ): Promise<TokenPair & { refreshTokenId: string }> {
+    const refreshToken = crypto.randomBytes(48).toString('base64url');
+    const refreshTokenId = uuidv4();
+    const now = Date.now();
+
+    await db.query(
+      `INSERT INTO refresh_tokens (id, user_id, family_id, token_hash, created_timestamp, expires_at)
+       VALUES ($1, $2, $3, $4, $5, $6)`,
+      [refreshTokenId, userId, sessionId, hashRefreshToken(refreshToken), now, now + authConfig.refreshTokenTtl * 1000]
+    );
+
+    const access = this.createAccessToken(userId, sessionId);
+
+    return {
+      accessToken: access.token,
+      refreshToken,
+      expiresAt: access.expiresAt,
+      refreshTokenId,
+    };
+  },
+
+  /**
+   * Exchange a refresh token for a new token pair (rotation)
+   * Presenting an already-rotated token revokes the whole session, since it
+   * means the token was leaked and used by someone else.
+   */
+  async refresh(refreshToken: string): Promise<TokenPair> {
+    const client = await getClient();
+    let reusedBy: RefreshToken | null = null;
+
+    try {
+      await client.query('BEGIN');
+
+      const result = await client.query(
+        `SELECT rt.*, s.id AS session_id, s.revoked_at AS session_revoked_at
+         FROM refresh_tokens rt
+         LEFT JOIN sessions s ON s.id = rt.family_id
+         WHERE rt.token_hash = $1
+         FOR UPDATE OF rt`,
+        [hashRefreshToken(refreshToken)]
+      );
+      const stored: (RefreshToken & { session_id: string | null; session_revoked_at: number | null }) | undefined =
+        result.rows[0];
+      const now = Date.now();
+
+      if (!stored) {
+        throw new Error('Invalid refresh token');
+      }
+
+      if (Number(stored.expires_at) <= now) {
+        throw new Error('Refresh token expired');
+      }
+
+      if (stored.session_id === null || stored.session_revoked_at !== null) {
+        throw new Error('Session has been revoked');
+      }
+
+      if (stored.revoked_at !== null) {
+        // Token reuse - release the row lock, then revoke the whole session below
+        await client.query('ROLLBACK');
+        reusedBy = stored;
+      } else {
+        const tokens = await this.issueTokens(stored.user_id, stored.family_id, client);
+
+        await client.query(
+          'UPDATE refresh_tokens SET revoked_at = $1, replaced_by = $2 WHERE id = $3',
+          [now, tokens.refreshTokenId, stored.id]
+        );
+
+        await client.query('COMMIT');
+
+        return {
+          accessToken: tokens.accessToken,
+          refreshToken: tokens.refreshToken,
+          expiresAt: tokens.expiresAt,
+        };
+      }
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+
+    await sessionService.revoke(reusedBy!.family_id);
+    console.warn(`[Auth] Refresh token reuse detected for user ${reusedBy!.user_id}, session revoked`);
+    throw new Error('Refresh token has been revoked');
+  },
+
+  /**
+   * Find the session a refresh token belongs to
+   * Returns null if the token is unknown
+   */
+  async getSessionId(refreshToken: string): Promise<string | null> {
+    const result = await query(
+      'SELECT family_id FROM refresh_tokens WHERE token_hash = $1',
+      [hashRefreshToken(refreshToken)]
+    );
+    return result.rows[0]?.family_id || null;
+  },
+};
@@ -0,0 +1,103 @@
+import { getClient } from '../config/database';
+import { syncConfig } from '../config/sync';
+import { getSyncCollection, SYNC_COLLECTION_NAMES } from './syncCollections';
+
+/**
+ * Tombstone Service
+ *
+ * Soft-deleted rows are kept so deletions reach every device through sync,
+ * but not forever: rows deleted longer than the retention period ago are
+ * purged, and each user's purge horizon (highest purged change_seq) is stored
+ * in sync_counters.purged_seq. Pulls from a cursor below the horizon could
+ * miss deletions, so they are answered with "reset required" instead.
+ */
+
+// Advisory lock key so only one server instance purges at a time
+const PURGE_LOCK_KEY = 7_170_001;
+
+let timer: NodeJS.Timeout | null = null;
+
+export const tombstoneService = {
+  /**
+   * Purge tombstones the server deleted before now - retention
+   * Age is deleted_at_server, not the client-supplied modified_at, so every
+   * tombstone is kept the full retention period after the server got it.
+   * Returns the number of rows removed (0 if another instance is purging)
+   */
+  async purge(retentionMs: number = syncConfig.tombstoneRetentionMs): Promise<number> {
+    const now = Date.now();
+    const cutoff = now - retentionMs;
+    const client = await getClient();
+    let purged = 0;
+
+    try {
+      await client.query('BEGIN');
+
+      const lock = await client.query('SELECT pg_try_advisory_xact_lock($1) AS acquired', [PURGE_LOCK_KEY]);
+      if (!lock.rows[0].acquired) {
+        await client.query('ROLLBACK');
+        return 0;
+      }
+
+      // Children first (reverse registry order), so a purged parent's ON DELETE
+      // actions only touch rows that are kept
+      for (const collection of [...SYNC_COLLECTION_NAMES].reverse()) {
+        const { table, ownerColumn } = getSyncCollection(collection);
+        const result = await client.query(
+          `WITH purged AS (
+             DELETE FROM ${table}
+             WHERE is_deleted = TRUE AND deleted_at_server < $1
+             RETURNING ${ownerColumn} AS owner_id, change_seq
+           ),
+           horizons AS (
+             SELECT owner_id, MAX(change_seq) AS max_seq, COUNT(*) AS count
+             FROM purged GROUP BY owner_id
+           ),
+           recorded AS (
+             UPDATE sync_counters c
+             SET purged_seq = GREATEST(c.purged_seq, h.max_seq), purged_at = $2
+             FROM horizons h
+             WHERE c.user_id = h.owner_id
+           )
+           SELECT COALESCE(SUM(count), 0) AS count FROM horizons`,
+          [cutoff, now]
+        );
+        purged += Number(result.rows[0].count);
+      }
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+
+    console.log(`[Tombstones] Purged ${purged} rows deleted before ${new Date(cutoff).toISOString()}`);
+    return purged;
+  },
+
+  /**
+   * Run the purge periodically (no-op if the interval is 0 or already started)
+   */
+  startSchedule(intervalMs: number = syncConfig.tombstonePurgeIntervalMs): void {
+    if (timer || intervalMs <= 0) {
+      return;
+    }
+
+    timer = setInterval(() => {
+      tombstoneService.purge().catch(error => {
+        console.error('[Tombstones] Purge failed:', error instanceof Error ? error.message : error);
+      });
+    }, intervalMs);
+    // Do not keep the process alive just for the purge
+    timer.unref();
+  },
+
+  stopSchedule(): void {
+    if (timer) {
+      clearInterval(timer);
+      timer = null;
+    }
+  },
+};